@@ -13,8 +13,33 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as crons from "../crons.js";
+import type * as directMessages from "../directMessages.js";
+import type * as lib_attachments from "../lib/attachments.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_avatars from "../lib/avatars.js";
+import type * as lib_membership from "../lib/membership.js";
+import type * as lib_mentions from "../lib/mentions.js";
+import type * as lib_presence from "../lib/presence.js";
+import type * as lib_push from "../lib/push.js";
+import type * as lib_quietHours from "../lib/quietHours.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_reactions from "../lib/reactions.js";
+import type * as lib_readState from "../lib/readState.js";
+import type * as lib_references from "../lib/references.js";
+import type * as lib_retention from "../lib/retention.js";
+import type * as lib_search from "../lib/search.js";
+import type * as lib_typing from "../lib/typing.js";
 import type * as messages from "../messages.js";
+import type * as migrations from "../migrations.js";
+import type * as notifications from "../notifications.js";
+import type * as presence from "../presence.js";
+import type * as push from "../push.js";
+import type * as rooms from "../rooms.js";
+import type * as scheduledMessages from "../scheduledMessages.js";
+import type * as uploads from "../uploads.js";
 import type * as users from "../users.js";
+import type * as webPush from "../webPush.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -25,8 +50,33 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  crons: typeof crons;
+  directMessages: typeof directMessages;
+  "lib/attachments": typeof lib_attachments;
+  "lib/auth": typeof lib_auth;
+  "lib/avatars": typeof lib_avatars;
+  "lib/membership": typeof lib_membership;
+  "lib/mentions": typeof lib_mentions;
+  "lib/presence": typeof lib_presence;
+  "lib/push": typeof lib_push;
+  "lib/quietHours": typeof lib_quietHours;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/reactions": typeof lib_reactions;
+  "lib/readState": typeof lib_readState;
+  "lib/references": typeof lib_references;
+  "lib/retention": typeof lib_retention;
+  "lib/search": typeof lib_search;
+  "lib/typing": typeof lib_typing;
   messages: typeof messages;
+  migrations: typeof migrations;
+  notifications: typeof notifications;
+  presence: typeof presence;
+  push: typeof push;
+  rooms: typeof rooms;
+  scheduledMessages: typeof scheduledMessages;
+  uploads: typeof uploads;
   users: typeof users;
+  webPush: typeof webPush;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
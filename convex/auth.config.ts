@@ -0,0 +1,20 @@
+// Identity providers accepted by `ctx.auth.getUserIdentity()`.
+// Clerk is used in production; the dev issuer (see src/app/api/dev-auth)
+// stands in for it locally and in tests.
+const providers = [];
+
+if (process.env.CLERK_JWT_ISSUER_DOMAIN) {
+  providers.push({
+    domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+    applicationID: "convex",
+  });
+}
+
+if (process.env.DEV_AUTH_ISSUER) {
+  providers.push({
+    domain: process.env.DEV_AUTH_ISSUER,
+    applicationID: "convextest-dev",
+  });
+}
+
+export default { providers };
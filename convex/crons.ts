@@ -0,0 +1,15 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Hard-delete messages whose soft-delete retention window has passed
+crons.hourly("purge deleted messages", { minuteUTC: 0 }, internal.messages.purgeDeleted, {});
+
+// Remove uploads that never made it into a message or avatar
+crons.daily("purge unreferenced uploads", { hourUTC: 3, minuteUTC: 30 }, internal.uploads.purgeUnreferenced, {});
+
+// Mark users offline once their tabs stop sending heartbeats
+crons.interval("expire presence sessions", { seconds: 30 }, internal.presence.sweep, {});
+
+export default crons;
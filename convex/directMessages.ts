@@ -0,0 +1,107 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { getMembership, otherParticipants } from "./lib/membership";
+import { countUnread } from "./lib/readState";
+
+// Direct messages are private rooms of kind "direct" whose membership is fixed
+// at creation, so messages, read receipts and typing work exactly as in channels
+const MAX_PARTICIPANTS = 8;
+
+// Open the conversation between the current user and `usernames`, creating it
+// on first use. The same set of participants always maps to the same room.
+export const open = mutation({
+  args: { usernames: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const participants = Array.from(
+      new Set([user.username, ...args.usernames.map((name) => name.trim()).filter(Boolean)])
+    ).sort();
+    if (participants.length < 2) throw new Error("Pick at least one other person");
+    if (participants.length > MAX_PARTICIPANTS) {
+      throw new Error(`Direct messages are limited to ${MAX_PARTICIPANTS} people`);
+    }
+
+    for (const name of participants) {
+      const exists = await ctx.db
+        .query("users")
+        .withIndex("by_username", (q) => q.eq("username", name))
+        .first();
+      if (!exists) throw new Error(`User ${name} not found`);
+    }
+
+    const participantKey = participants.join(",");
+    const existing = await ctx.db
+      .query("rooms")
+      .withIndex("by_participant_key", (q) => q.eq("participantKey", participantKey))
+      .first();
+    if (existing) {
+      // Someone who left a group conversation rejoins it by opening it again
+      if (!(await getMembership(ctx, existing._id, user.username))) {
+        await ctx.db.insert("roomMembers", {
+          roomId: existing._id,
+          username: user.username,
+          role: "member",
+          joinedAt: Date.now(),
+        });
+      }
+      return existing._id;
+    }
+
+    const roomId = await ctx.db.insert("rooms", {
+      name: "",
+      visibility: "private",
+      kind: "direct",
+      participantKey,
+      createdBy: user.username,
+      createdAt: Date.now(),
+    });
+    for (const name of participants) {
+      await ctx.db.insert("roomMembers", {
+        roomId,
+        username: name,
+        role: "member",
+        joinedAt: Date.now(),
+        invitedBy: name === user.username ? undefined : user.username,
+      });
+    }
+    return roomId;
+  },
+});
+
+// The current user's direct messages, most recently active first
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+    const memberships = await ctx.db
+      .query("roomMembers")
+      .withIndex("by_username", (q) => q.eq("username", user.username))
+      .collect();
+
+    const conversations = await Promise.all(
+      memberships.map(async (membership) => {
+        const room = await ctx.db.get(membership.roomId);
+        if (!room || room.kind !== "direct") return null;
+
+        const latest = await ctx.db
+          .query("messages")
+          .withIndex("by_room_parent", (q) => q.eq("roomId", room._id).eq("parentId", undefined))
+          .order("desc")
+          .first();
+
+        return {
+          _id: room._id,
+          participants: await otherParticipants(ctx, room._id, user.username),
+          lastMessageAt: latest?.timestamp ?? room.createdAt,
+          unreadCount: await countUnread(ctx, membership),
+          muted: !!membership.muted,
+        };
+      })
+    );
+    return conversations
+      .filter((c) => c !== null)
+      .sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+  },
+});
@@ -0,0 +1,75 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 200 * 1024;
+
+// Content types accepted for message attachments
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/zip",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/json",
+];
+
+export function isImageType(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+// Check an uploaded file against the limits using the size and type recorded
+// by storage, not what the client claims
+export async function validateUpload(
+  ctx: MutationCtx,
+  storageId: Id<"_storage">,
+  maxBytes: number,
+  allowedTypes: string[]
+) {
+  const file = await ctx.db.system.get(storageId);
+  if (!file) throw new Error("Upload not found");
+
+  const contentType = file.contentType ?? "application/octet-stream";
+  if (file.size > maxBytes) {
+    throw new Error(`Files must be smaller than ${Math.round(maxBytes / 1024 / 1024)}MB`);
+  }
+  if (!allowedTypes.includes(contentType)) {
+    throw new Error(`Files of type ${contentType} are not allowed`);
+  }
+  return { size: file.size, contentType };
+}
+
+// Whether a message or an avatar already uses this file. A file is accepted
+// only once, so nobody can attach, or later delete, an upload that is not theirs.
+export async function isUploadReferenced(ctx: QueryCtx, storageId: Id<"_storage">): Promise<boolean> {
+  const references = await Promise.all([
+    ctx.db.query("messages").withIndex("by_attachment", (q) => q.eq("attachment.storageId", storageId)).first(),
+    ctx.db.query("messages").withIndex("by_thumbnail", (q) => q.eq("attachment.thumbnailId", storageId)).first(),
+    ctx.db.query("users").withIndex("by_avatar_small", (q) => q.eq("avatarStorageIds.small", storageId)).first(),
+    ctx.db.query("users").withIndex("by_avatar_medium", (q) => q.eq("avatarStorageIds.medium", storageId)).first(),
+    ctx.db.query("users").withIndex("by_avatar_large", (q) => q.eq("avatarStorageIds.large", storageId)).first(),
+  ]);
+  return references.some((reference) => reference !== null);
+}
+
+// Delete a file once nothing refers to it any more. Call after removing the
+// caller's own reference.
+export async function deleteUnreferencedUpload(ctx: MutationCtx, storageId: Id<"_storage">) {
+  if (!(await isUploadReferenced(ctx, storageId))) await ctx.storage.delete(storageId);
+}
+
+// Resolve a message's files into URLs the client can render. Storage ids stay
+// on the server.
+export async function withAttachmentUrls<T extends Doc<"messages">>(ctx: QueryCtx, message: T) {
+  if (!message.attachment) return { ...message, attachment: undefined, attachmentUrl: null, thumbnailUrl: null };
+  const { storageId, thumbnailId, ...attachment } = message.attachment;
+  const [attachmentUrl, thumbnailUrl] = await Promise.all([
+    ctx.storage.getUrl(storageId),
+    thumbnailId ? ctx.storage.getUrl(thumbnailId) : null,
+  ]);
+  return { ...message, attachment, attachmentUrl, thumbnailUrl };
+}
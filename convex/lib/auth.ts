@@ -0,0 +1,29 @@
+import { UserIdentity } from "convex/server";
+import { QueryCtx } from "../_generated/server";
+
+// Pick a display username from the identity provider's claims
+export function usernameFromIdentity(identity: UserIdentity): string {
+  const candidate =
+    identity.preferredUsername ??
+    identity.nickname ??
+    identity.name ??
+    identity.email?.split("@")[0] ??
+    "user";
+  return candidate.trim().replace(/\s+/g, "_").slice(0, 32) || "user";
+}
+
+// The signed-in user's record, or null when signed out or not yet stored
+export async function getCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return await ctx.db
+    .query("users")
+    .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+    .unique();
+}
+
+export async function requireUser(ctx: QueryCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) throw new Error("Not authenticated");
+  return user;
+}
@@ -0,0 +1,42 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+// Square sizes generated by the client for every uploaded avatar
+export const AVATAR_SIZES = { small: 48, medium: 128, large: 512 } as const;
+export const MAX_AVATAR_BYTES = 512 * 1024;
+export const AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+
+// Resolve a user's avatar to URLs. Legacy inline data URLs are never sent to
+// clients; they disappear once the avatar migration has run.
+export async function resolveAvatar(ctx: QueryCtx, user: Pick<Doc<"users">, "avatar" | "avatarStorageIds">) {
+  if (user.avatarStorageIds) {
+    const { small, medium, large } = user.avatarStorageIds;
+    const [smallUrl, mediumUrl, largeUrl] = await Promise.all([
+      ctx.storage.getUrl(small),
+      ctx.storage.getUrl(medium),
+      ctx.storage.getUrl(large),
+    ]);
+    return { avatar: mediumUrl, avatarUrls: { small: smallUrl, medium: mediumUrl, large: largeUrl } };
+  }
+  const external = user.avatar && !user.avatar.startsWith("data:") ? user.avatar : null;
+  return { avatar: external, avatarUrls: null };
+}
+
+// The user document as sent to clients: avatar URLs instead of image data or
+// storage ids, and no auth identifiers or preferences
+export async function toPublicUser(ctx: QueryCtx, user: Doc<"users">) {
+  return {
+    _id: user._id,
+    _creationTime: user._creationTime,
+    username: user.username,
+    color: user.color,
+    status: user.status,
+    lastSeen: user.lastSeen,
+    isOnline: user.isOnline,
+    presence: user.presence,
+    lastActivity: user.lastActivity,
+    ...(await resolveAvatar(ctx, user)),
+  };
+}
@@ -0,0 +1,66 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+export type RoomRole = Doc<"roomMembers">["role"];
+
+// Higher rank can manage lower ranks
+const ROLE_RANK: Record<RoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  owner: 2,
+};
+
+export function hasRole(member: Doc<"roomMembers"> | null, role: RoomRole): boolean {
+  return !!member && ROLE_RANK[member.role] >= ROLE_RANK[role];
+}
+
+export function outranks(actor: Doc<"roomMembers">, target: Doc<"roomMembers">): boolean {
+  return ROLE_RANK[actor.role] > ROLE_RANK[target.role];
+}
+
+export async function getMembership(ctx: QueryCtx, roomId: Id<"rooms">, username: string) {
+  return await ctx.db
+    .query("roomMembers")
+    .withIndex("by_room_username", (q) => q.eq("roomId", roomId).eq("username", username))
+    .first();
+}
+
+// Public rooms are readable by everyone, private rooms only by their members
+export async function canReadRoom(ctx: QueryCtx, roomId: Id<"rooms">, username: string) {
+  const room = await ctx.db.get(roomId);
+  if (!room) return false;
+  if (room.visibility === "public") return true;
+  return !!(await getMembership(ctx, roomId, username));
+}
+
+export async function requireMember(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">,
+  username: string,
+  role: RoomRole = "member"
+) {
+  const room = await ctx.db.get(roomId);
+  if (!room) throw new Error("Room not found");
+  const member = await getMembership(ctx, roomId, username);
+  if (!member) throw new Error("You are not a member of this room");
+  if (!hasRole(member, role)) throw new Error(`Only a room ${role} can do that`);
+  return { room, member };
+}
+
+// Usernames of everyone in a room except `username`, e.g. to title a direct message
+export async function otherParticipants(ctx: QueryCtx, roomId: Id<"rooms">, username: string) {
+  const members = await ctx.db
+    .query("roomMembers")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  return members.map((m) => m.username).filter((name) => name !== username).sort();
+}
+
+export type RoomMessage = Doc<"messages"> & { roomId: Id<"rooms"> };
+
+// Load a message along with the room it belongs to. Messages from before
+// rooms have none until migrations:assignRooms has run and count as missing.
+export async function getRoomMessage(ctx: QueryCtx, messageId: Id<"messages">): Promise<RoomMessage | null> {
+  const message = await ctx.db.get(messageId);
+  return message?.roomId ? { ...message, roomId: message.roomId } : null;
+}
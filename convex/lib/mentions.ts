@@ -0,0 +1,56 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { canReadRoom, getRoomMessage } from "./membership";
+
+// `@name` at the start of the text or after a non-word character, so email
+// addresses do not count. Usernames may contain dots and dashes, but not at the end.
+const MENTION_PATTERN = /(^|[^\w@])@([\w.-]{1,32})/g;
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+const MAX_MENTIONS = 20;
+
+// Candidate usernames written as @name outside code, in order of appearance
+export function parseMentions(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of Array.from(text.replace(CODE_PATTERN, " ").matchAll(MENTION_PATTERN))) {
+    const name = match[2].replace(/[.-]+$/, "");
+    if (name) names.add(name);
+  }
+  return Array.from(names).slice(0, MAX_MENTIONS);
+}
+
+// The users a message mentions: existing users who can read the room, other
+// than the author
+export async function resolveMentions(ctx: QueryCtx, roomId: Id<"rooms">, text: string, author: string) {
+  const mentioned: string[] = [];
+  for (const name of parseMentions(text)) {
+    if (name === author) continue;
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", name))
+      .first();
+    if (user && (await canReadRoom(ctx, roomId, name))) mentioned.push(name);
+  }
+  return mentioned;
+}
+
+// Rebuild the inbox entries for a message from its `mentions`. Deleted or
+// missing messages end up with none.
+export async function syncMentions(ctx: MutationCtx, messageId: Id<"messages">) {
+  const existing = await ctx.db
+    .query("mentions")
+    .withIndex("by_message", (q) => q.eq("messageId", messageId))
+    .collect();
+  for (const row of existing) await ctx.db.delete(row._id);
+
+  const message = await getRoomMessage(ctx, messageId);
+  if (!message || message.deleted) return;
+  for (const username of message.mentions ?? []) {
+    await ctx.db.insert("mentions", {
+      username,
+      messageId,
+      roomId: message.roomId,
+      mentionedBy: message.username,
+      timestamp: message.timestamp,
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import type { MutationCtx } from "../_generated/server";
+
+// Each open tab sends a heartbeat this often, and counts as gone once it has
+// missed a few. Browsers may throttle timers in background tabs to once a
+// minute, so the timeout leaves room for that. Shared with the client.
+export const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+export const SESSION_TIMEOUT_MS = 90 * 1000;
+
+export type Presence = "online" | "away" | "offline";
+
+// Derive a user's presence from their live sessions: online while any tab is
+// active, away while every tab is hidden or idle, offline without tabs.
+// Going online or offline is logged as login or logout activity.
+export async function refreshPresence(ctx: MutationCtx, username: string) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_username", (q) => q.eq("username", username))
+    .first();
+  if (!user) return;
+  const sessions = await ctx.db
+    .query("presenceSessions")
+    .withIndex("by_username", (q) => q.eq("username", username))
+    .collect();
+
+  const presence: Presence =
+    sessions.length === 0 ? "offline" : sessions.some((s) => s.state === "active") ? "online" : "away";
+  const isOnline = presence !== "offline";
+  const lastHeartbeat = Math.max(0, ...sessions.map((s) => s.lastHeartbeat));
+  await ctx.db.patch(user._id, {
+    presence,
+    isOnline,
+    lastSeen: isOnline ? Date.now() : lastHeartbeat || user.lastSeen,
+  });
+
+  if (isOnline !== !!user.isOnline) {
+    await ctx.db.insert("userActivity", {
+      username,
+      type: isOnline ? "login" : "logout",
+      timestamp: Date.now(),
+    });
+  }
+}
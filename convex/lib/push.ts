@@ -0,0 +1,64 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { getMembership, getRoomMessage, otherParticipants } from "./membership";
+
+// Hosts of the browsers' push services. The backend POSTs to subscription
+// endpoints, so nothing else is accepted.
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "android.googleapis.com",
+  "push.services.mozilla.com",
+  "notify.windows.com",
+  "push.apple.com",
+];
+
+export function isPushConfigured(): boolean {
+  return !!process.env.VAPID_PUBLIC_KEY && !!process.env.VAPID_PRIVATE_KEY;
+}
+
+// Whether pushes may be sent to `endpoint`: https on a known push service, or
+// exactly the local stand-in when DEV_PUSH_ENDPOINT names one
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  if (process.env.DEV_PUSH_ENDPOINT && endpoint === process.env.DEV_PUSH_ENDPOINT) return true;
+  let url;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port || url.username || url.password) return false;
+  return PUSH_SERVICE_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+// Queue Web Push notifications for a new message: everyone it mentions and,
+// in direct messages, the other participants. Only users who are offline and
+// have notifications turned on get one; muted conversations still push mentions.
+export async function schedulePushNotifications(ctx: MutationCtx, messageId: Id<"messages">) {
+  if (!isPushConfigured()) return;
+  const message = await getRoomMessage(ctx, messageId);
+  const room = message && (await ctx.db.get(message.roomId));
+  if (!message || !room) return;
+
+  const mentioned = new Set(message.mentions ?? []);
+  const candidates = new Set(mentioned);
+  if (room.kind === "direct") {
+    for (const name of await otherParticipants(ctx, room._id, message.username)) candidates.add(name);
+  }
+
+  const usernames: string[] = [];
+  for (const username of Array.from(candidates)) {
+    if (username === message.username) continue;
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", username))
+      .first();
+    if (!user || user.isOnline || !user.preferences.notifications) continue;
+    const member = await getMembership(ctx, room._id, username);
+    if (member?.muted && !mentioned.has(username)) continue;
+    usernames.push(username);
+  }
+  if (usernames.length > 0) {
+    await ctx.scheduler.runAfter(0, internal.webPush.send, { messageId, usernames });
+  }
+}
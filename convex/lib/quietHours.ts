@@ -0,0 +1,23 @@
+// Do-not-disturb window from user preferences, in minutes after local midnight
+export interface QuietHours {
+  enabled: boolean;
+  start: number;
+  end: number;
+}
+
+// Minutes after midnight at `date`, in `timeZone` or the runtime's local zone
+export function minutesIntoDay(date: Date, timeZone?: string): number {
+  if (!timeZone) return date.getHours() * 60 + date.getMinutes();
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", minute: "numeric", hourCycle: "h23" })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+// Whether a time of day falls within quiet hours. A range that ends before it
+// starts runs past midnight, e.g. 22:00 to 07:00.
+export function isQuietTime(quietHours: QuietHours | undefined, minutes: number): boolean {
+  if (!quietHours?.enabled || quietHours.start === quietHours.end) return false;
+  const { start, end } = quietHours;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
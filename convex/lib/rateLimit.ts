@@ -0,0 +1,56 @@
+import { ConvexError } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+
+// Token buckets per user and action: `capacity` is the allowed burst and the
+// bucket refills continuously at `refillPerSecond`
+export const RATE_LIMITS = {
+  send: { capacity: 10, refillPerSecond: 1 },
+  react: { capacity: 20, refillPerSecond: 2 },
+  edit: { capacity: 10, refillPerSecond: 0.5 },
+  typing: { capacity: 10, refillPerSecond: 1 },
+} as const;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+// Shape of the ConvexError data thrown for throttled or rejected requests;
+// `message` is meant to be shown to the user as is
+export type SpamErrorData =
+  | { code: "RATE_LIMITED"; message: string; retryAfterMs: number }
+  | { code: "DUPLICATE_MESSAGE"; message: string };
+
+// Take a token from the user's bucket. Returns how long to wait when the
+// bucket is empty; nothing is written in that case.
+export async function consumeRateLimit(ctx: MutationCtx, name: RateLimitName, username: string) {
+  const { capacity, refillPerSecond } = RATE_LIMITS[name];
+  const now = Date.now();
+  const bucket = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_username_name", (q) => q.eq("username", username).eq("name", name))
+    .unique();
+
+  const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+  const tokens = bucket ? Math.min(capacity, bucket.tokens + elapsed * refillPerSecond) : capacity;
+  if (tokens < 1) {
+    return { ok: false, retryAfterMs: Math.ceil(((1 - tokens) / refillPerSecond) * 1000) };
+  }
+
+  if (bucket) {
+    await ctx.db.patch(bucket._id, { tokens: tokens - 1, updatedAt: now });
+  } else {
+    await ctx.db.insert("rateLimits", { username, name, tokens: tokens - 1, updatedAt: now });
+  }
+  return { ok: true, retryAfterMs: 0 };
+}
+
+// Like consumeRateLimit, but throws a RATE_LIMITED ConvexError when throttled
+export async function enforceRateLimit(ctx: MutationCtx, name: RateLimitName, username: string) {
+  const { ok, retryAfterMs } = await consumeRateLimit(ctx, name, username);
+  if (!ok) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    throw new ConvexError<SpamErrorData>({
+      code: "RATE_LIMITED",
+      message: `You're doing that too often. Try again in ${seconds} second${seconds === 1 ? "" : "s"}.`,
+      retryAfterMs,
+    });
+  }
+}
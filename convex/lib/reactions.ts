@@ -0,0 +1,27 @@
+// An emoji is one pictograph (optionally with a variation selector and skin
+// tone), a keycap, a flag (a pair of regional indicators or a tag sequence),
+// or pictographs joined by ZWJ. Built with RegExp because the ES5 type-check
+// target rejects the `u` flag on regex literals.
+const PICTOGRAPH = "\\p{Extended_Pictographic}\\ufe0f?\\p{Emoji_Modifier}?\\ufe0f?";
+const EMOJI = new RegExp(
+  "^(?:" +
+    `${PICTOGRAPH}(?:\\u200d${PICTOGRAPH})*` +
+    "|[0-9#*]\\ufe0f?\\u20e3" +
+    "|\\p{Regional_Indicator}{2}" +
+    "|\\u{1F3F4}[\\u{E0020}-\\u{E007E}]+\\u{E007F}" +
+    ")$",
+  "u"
+);
+const MAX_EMOJI_LENGTH = 32;
+
+export const MAX_REACTIONS_PER_USER = 20;
+export const MAX_DISTINCT_REACTIONS = 50;
+
+// Whether `value` is exactly one emoji, so reactions and recent emojis cannot
+// carry arbitrary text
+export function isEmoji(value: string): boolean {
+  if (value.length > MAX_EMOJI_LENGTH || !EMOJI.test(value)) return false;
+  if (typeof Intl === "undefined" || !Intl.Segmenter) return true;
+  const graphemes = Array.from(new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(value));
+  return graphemes.length === 1;
+}
@@ -0,0 +1,61 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+// Unread counts stop at this many messages; the client shows "99+" beyond it
+export const UNREAD_COUNT_LIMIT = 100;
+
+export async function getReadCursor(ctx: QueryCtx, roomId: Id<"rooms">, username: string) {
+  return await ctx.db
+    .query("readCursors")
+    .withIndex("by_room_username", (q) => q.eq("roomId", roomId).eq("username", username))
+    .unique();
+}
+
+// Where a member has read up to. Members who never read anything have read
+// everything from before they joined.
+export async function lastReadAt(ctx: QueryCtx, member: Doc<"roomMembers">) {
+  const cursor = await getReadCursor(ctx, member.roomId, member.username);
+  return cursor?.lastReadAt ?? member.joinedAt;
+}
+
+// Move a read cursor forward; it never moves back
+export async function advanceReadCursor(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  username: string,
+  timestamp: number
+) {
+  const cursor = await getReadCursor(ctx, roomId, username);
+  if (!cursor) {
+    await ctx.db.insert("readCursors", { roomId, username, lastReadAt: timestamp });
+  } else if (timestamp > cursor.lastReadAt) {
+    await ctx.db.patch(cursor._id, { lastReadAt: timestamp });
+  }
+}
+
+// Top-level messages from other people that arrived after the member's cursor
+export async function countUnread(ctx: QueryCtx, member: Doc<"roomMembers">) {
+  const since = await lastReadAt(ctx, member);
+  const newer = await ctx.db
+    .query("messages")
+    .withIndex("by_room_parent", (q) =>
+      q.eq("roomId", member.roomId).eq("parentId", undefined).gt("timestamp", since)
+    )
+    .take(UNREAD_COUNT_LIMIT);
+  return newer.filter((m) => !m.deleted && m.username !== member.username).length;
+}
+
+// Per-message read receipts derived from the room's cursors: everyone other
+// than the author whose cursor has reached the message
+export async function withReadReceipts(ctx: QueryCtx, roomId: Id<"rooms">) {
+  const cursors = await ctx.db
+    .query("readCursors")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  return <T extends Doc<"messages">>(message: T) => ({
+    ...message,
+    readBy: cursors
+      .filter((c) => c.username !== message.username && c.lastReadAt >= message.timestamp)
+      .map((c) => c.username),
+  });
+}
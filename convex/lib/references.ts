@@ -0,0 +1,30 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { canReadRoom, getRoomMessage } from "./membership";
+
+const PREVIEW_LENGTH = 280;
+
+// What a quote or forward shows of its source message. Null when the source
+// is gone or sits in a room the viewer cannot read.
+async function messagePreview(ctx: QueryCtx, messageId: Id<"messages">, username: string) {
+  const source = await getRoomMessage(ctx, messageId);
+  if (!source || !(await canReadRoom(ctx, source.roomId, username))) return null;
+  return {
+    _id: source._id,
+    roomId: source.roomId,
+    username: source.username,
+    timestamp: source.timestamp,
+    deleted: !!source.deleted,
+    text: source.deleted ? "" : source.text.slice(0, PREVIEW_LENGTH),
+    attachmentName: source.deleted ? undefined : source.attachment?.name,
+  };
+}
+
+// Resolve quotedMessageId and forwardedFrom into previews for `username`
+export async function withReferences<T extends Doc<"messages">>(ctx: QueryCtx, message: T, username: string) {
+  const [quoted, forwarded] = await Promise.all([
+    message.quotedMessageId ? messagePreview(ctx, message.quotedMessageId, username) : null,
+    message.forwardedFrom ? messagePreview(ctx, message.forwardedFrom, username) : null,
+  ]);
+  return { ...message, quoted, forwarded };
+}
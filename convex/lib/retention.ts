@@ -0,0 +1,26 @@
+import type { Doc } from "../_generated/dataModel";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Authors can restore a message they deleted for this long
+export const UNDO_DELETE_MS = 5 * 60 * 1000;
+
+// Deleted messages are purged for good after MESSAGE_RETENTION_DAYS (Convex
+// deployment env), 30 days by default
+export function deletedRetentionMs(): number {
+  const days = Number(process.env.MESSAGE_RETENTION_DAYS);
+  return (Number.isFinite(days) && days >= 0 ? days : 30) * DAY_MS;
+}
+
+// What clients see of a deleted message: that it existed, not what it said
+export function redactDeleted<T extends Doc<"messages">>(message: T): T {
+  if (!message.deleted) return message;
+  return {
+    ...message,
+    text: "",
+    attachment: undefined,
+    reactions: undefined,
+    quotedMessageId: undefined,
+    forwardedFrom: undefined,
+  };
+}
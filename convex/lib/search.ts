@@ -0,0 +1,57 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedSearch {
+  text: string;           // Free text left after removing filters
+  from?: string;          // from:alice
+  before?: number;        // before:2024-03-01 (exclusive, start of that day)
+  after?: number;         // after:2024-03-01 (exclusive, end of that day)
+  hasReaction: boolean;   // has:reaction
+}
+
+function parseDay(value: string): number | undefined {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Split a search box query into free text and `key:value` filters.
+// Unknown or malformed filters are kept as search text.
+export function parseSearchQuery(raw: string): ParsedSearch {
+  const parsed: ParsedSearch = { text: "", hasReaction: false };
+  const words: string[] = [];
+
+  for (const token of raw.trim().split(/\s+/)) {
+    const [key, ...rest] = token.split(":");
+    const value = rest.join(":");
+    if (!value) {
+      if (token) words.push(token);
+      continue;
+    }
+
+    switch (key.toLowerCase()) {
+      case "from":
+        parsed.from = value.replace(/^@/, "");
+        break;
+      case "before": {
+        const day = parseDay(value);
+        if (day === undefined) words.push(token);
+        else parsed.before = day;
+        break;
+      }
+      case "after": {
+        const day = parseDay(value);
+        if (day === undefined) words.push(token);
+        else parsed.after = day + DAY_MS;
+        break;
+      }
+      case "has":
+        if (value.toLowerCase() === "reaction") parsed.hasReaction = true;
+        else words.push(token);
+        break;
+      default:
+        words.push(token);
+    }
+  }
+
+  parsed.text = words.join(" ");
+  return parsed;
+}
@@ -0,0 +1,6 @@
+// A typing indicator disappears this long after it was last refreshed, even if
+// the client never says it stopped. Shared with the client.
+export const TYPING_TTL_MS = 6 * 1000;
+
+// Clients refresh the indicator at most this often while the user keeps typing
+export const TYPING_REFRESH_MS = 2 * 1000;
@@ -1,135 +1,641 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  deleteUnreferencedUpload,
+  isUploadReferenced,
+  MAX_ATTACHMENT_BYTES,
+  MAX_THUMBNAIL_BYTES,
+  validateUpload,
+  withAttachmentUrls,
+} from "./lib/attachments";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { canReadRoom, getMembership, getRoomMessage, hasRole, requireMember } from "./lib/membership";
+import { resolveMentions, syncMentions } from "./lib/mentions";
+import { schedulePushNotifications } from "./lib/push";
+import { consumeRateLimit, enforceRateLimit, type SpamErrorData } from "./lib/rateLimit";
+import { advanceReadCursor, withReadReceipts } from "./lib/readState";
+import { isEmoji, MAX_DISTINCT_REACTIONS, MAX_REACTIONS_PER_USER } from "./lib/reactions";
+import { withReferences } from "./lib/references";
+import { deletedRetentionMs, redactDeleted, UNDO_DELETE_MS } from "./lib/retention";
+import { parseSearchQuery } from "./lib/search";
+import { TYPING_TTL_MS } from "./lib/typing";
 
+// Identical text from the same author in the same conversation within this
+// window is treated as an accidental or spammy repeat
+const DUPLICATE_WINDOW_MS = 30 * 1000;
+const MAX_PINNED = 50;
+const PURGE_BATCH_SIZE = 100;
+
+// Recount a thread's replies after one was deleted, restored or purged.
+// Deleted replies do not count, and the latest remaining one is shown as the
+// last reply.
+async function refreshThreadSummary(ctx: MutationCtx, parentId: Id<"messages">) {
+  const parent = await ctx.db.get(parentId);
+  if (!parent) return;
+  const replies = (
+    await ctx.db
+      .query("messages")
+      .withIndex("by_parent", (q) => q.eq("parentId", parentId))
+      .collect()
+  ).filter((reply) => !reply.deleted);
+  const last = replies.reduce<Doc<"messages"> | null>(
+    (latest, reply) => (!latest || reply.timestamp > latest.timestamp ? reply : latest),
+    null
+  );
+  await ctx.db.patch(parentId, {
+    replyCount: replies.length,
+    lastReplyAt: last?.timestamp,
+    lastReplyBy: last?.username,
+  });
+}
+
+// Upload URL for a message attachment; pass the resulting storage id to `send`
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Post a message. Clients that may retry pass a `clientId` of their own; a
+// send repeating one returns the message already created instead of posting
+// it twice.
 export const send = mutation({
   args: {
+    roomId: v.id("rooms"),
     text: v.string(),
-    username: v.string(),
-    color: v.string(),
+    clientId: v.optional(v.string()),
+    parentId: v.optional(v.id("messages")),
+    quotedMessageId: v.optional(v.id("messages")),
+    attachment: v.optional(v.object({
+      storageId: v.id("_storage"),
+      thumbnailId: v.optional(v.id("_storage")),
+      name: v.string(),
+    })),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    if (args.clientId) {
+      const existing = await ctx.db
+        .query("messages")
+        .withIndex("by_client_id", (q) => q.eq("clientId", args.clientId))
+        .first();
+      if (existing && existing.username === user.username) return existing._id;
+    }
+    await requireMember(ctx, args.roomId, user.username);
+    if (!args.text.trim() && !args.attachment) throw new Error("Message is empty");
+    await enforceRateLimit(ctx, "send", user.username);
+
+    if (!args.attachment) {
+      const text = args.text.trim();
+      const recent = await ctx.db
+        .query("messages")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId).gt("_creationTime", Date.now() - DUPLICATE_WINDOW_MS))
+        .filter((q) => q.eq(q.field("username"), user.username))
+        .collect();
+      if (recent.some((m) => m.parentId === args.parentId && !m.attachment && m.text.trim() === text)) {
+        throw new ConvexError<SpamErrorData>({
+          code: "DUPLICATE_MESSAGE",
+          message: "You just sent that message.",
+        });
+      }
+    }
+
+    let attachment;
+    if (args.attachment) {
+      const { storageId, thumbnailId, name } = args.attachment;
+      for (const id of [storageId, thumbnailId]) {
+        if (id && (await isUploadReferenced(ctx, id))) throw new Error("This file is already in use");
+      }
+      if (thumbnailId === storageId) throw new Error("This file is already in use");
+      const file = await validateUpload(ctx, storageId, MAX_ATTACHMENT_BYTES, ALLOWED_ATTACHMENT_TYPES);
+      if (thumbnailId) {
+        await validateUpload(ctx, thumbnailId, MAX_THUMBNAIL_BYTES, ["image/jpeg", "image/png", "image/webp"]);
+      }
+      attachment = { storageId, thumbnailId, name: name.slice(0, 255), ...file };
+    }
+
+    // Threads are one level deep: replies always hang off a top-level message
+    const parent = args.parentId ? await getRoomMessage(ctx, args.parentId) : null;
+    if (args.parentId) {
+      if (!parent || parent.roomId !== args.roomId) throw new Error("Thread not found");
+      if (parent.parentId) throw new Error("Cannot reply to a reply");
+    }
+    if (args.quotedMessageId) {
+      const quoted = await getRoomMessage(ctx, args.quotedMessageId);
+      if (!quoted || quoted.deleted || quoted.roomId !== args.roomId) throw new Error("Quoted message not found");
+    }
+
+    const timestamp = Date.now();
     const messageId = await ctx.db.insert("messages", {
+      roomId: args.roomId,
       text: args.text,
-      username: args.username,
-      color: args.color,
-      timestamp: Date.now(),
+      username: user.username,
+      color: user.color,
+      timestamp,
       delivered: true,
-      readBy: [],
+      parentId: args.parentId,
+      quotedMessageId: args.quotedMessageId,
+      attachment,
+      mentions: await resolveMentions(ctx, args.roomId, args.text, user.username),
+      clientId: args.clientId,
     });
+    await syncMentions(ctx, messageId);
+    await schedulePushNotifications(ctx, messageId);
+    // Whatever came before your own message counts as read
+    await advanceReadCursor(ctx, args.roomId, user.username, timestamp);
+
+    if (parent) {
+      await ctx.db.patch(parent._id, {
+        replyCount: (parent.replyCount ?? 0) + 1,
+        lastReplyAt: timestamp,
+        lastReplyBy: user.username,
+      });
+    }
     return messageId;
   },
 });
 
+// Top-level messages only, newest first; the client reverses each page for display
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
-    const messages = await ctx.db
+  args: { roomId: v.id("rooms"), paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+    const result = await ctx.db
       .query("messages")
+      .withIndex("by_room_parent", (q) => q.eq("roomId", args.roomId).eq("parentId", undefined))
       .order("desc")
-      .take(100);
-    return messages.reverse();
+      .paginate(args.paginationOpts);
+    const withReceipts = await withReadReceipts(ctx, args.roomId);
+    return {
+      ...result,
+      page: await Promise.all(
+        result.page.map(async (message) =>
+          withReferences(ctx, await withAttachmentUrls(ctx, withReceipts(redactDeleted(message))), user.username)
+        )
+      ),
+    };
+  },
+});
+
+// A thread's parent message and its replies, oldest first
+export const listThread = query({
+  args: { parentId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    const parent = await getRoomMessage(ctx, args.parentId);
+    if (!user || !parent || !(await canReadRoom(ctx, parent.roomId, user.username))) return null;
+
+    const replies = await ctx.db
+      .query("messages")
+      .withIndex("by_parent", (q) => q.eq("parentId", args.parentId))
+      .collect();
+    const withReceipts = await withReadReceipts(ctx, parent.roomId);
+    const resolve = async (message: Doc<"messages">) =>
+      withReferences(ctx, await withAttachmentUrls(ctx, withReceipts(redactDeleted(message))), user.username);
+    return {
+      parent: await resolve(parent),
+      replies: await Promise.all(replies.map(resolve)),
+    };
+  },
+});
+
+// Post a message into another conversation that embeds the original. An
+// optional comment becomes the new message's text.
+export const forwardMessage = mutation({
+  args: { messageId: v.id("messages"), roomId: v.id("rooms"), comment: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const source = await getRoomMessage(ctx, args.messageId);
+    if (!source || source.deleted || !(await canReadRoom(ctx, source.roomId, user.username))) {
+      throw new Error("Message not found");
+    }
+    await requireMember(ctx, args.roomId, user.username);
+    await enforceRateLimit(ctx, "send", user.username);
+
+    const timestamp = Date.now();
+    const text = args.comment?.trim() ?? "";
+    const messageId = await ctx.db.insert("messages", {
+      roomId: args.roomId,
+      text,
+      username: user.username,
+      color: user.color,
+      timestamp,
+      delivered: true,
+      // Forwarding a forward points at the original
+      forwardedFrom: source.forwardedFrom ?? source._id,
+      mentions: await resolveMentions(ctx, args.roomId, text, user.username),
+    });
+    await syncMentions(ctx, messageId);
+    await schedulePushNotifications(ctx, messageId);
+    await advanceReadCursor(ctx, args.roomId, user.username, timestamp);
+    return messageId;
   },
 });
 
 export const editMessage = mutation({
-  args: { messageId: v.id("messages"), newText: v.string(), username: v.string() },
+  args: { messageId: v.id("messages"), newText: v.string() },
   handler: async (ctx, args) => {
-    const message = await ctx.db.get(args.messageId);
-    if (!message) throw new Error("Message not found");
-    if (message.username !== args.username) throw new Error("You can only edit your own messages");
-    await ctx.db.patch(args.messageId, { text: args.newText, edited: true });
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    // Deleted messages stay frozen so an undo brings back what was deleted
+    if (!message || message.deleted) throw new Error("Message not found");
+    if (message.username !== user.username) throw new Error("You can only edit your own messages");
+    await requireMember(ctx, message.roomId, user.username);
+    await enforceRateLimit(ctx, "edit", user.username);
+    if (args.newText === message.text) return true;
+
+    // Keep the replaced text so the history can be shown later
+    const now = Date.now();
+    await ctx.db.insert("messageRevisions", {
+      messageId: message._id,
+      text: message.text,
+      writtenAt: message.editedAt ?? message.timestamp,
+      replacedAt: now,
+    });
+    await ctx.db.patch(args.messageId, {
+      text: args.newText,
+      edited: true,
+      editedAt: now,
+      mentions: await resolveMentions(ctx, message.roomId, args.newText, user.username),
+    });
+    await syncMentions(ctx, args.messageId);
     return true;
   },
 });
 
+// Every version of a message, oldest first, ending with the current text
+export const getMessageHistory = query({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    if (!user || !message || message.deleted || !(await canReadRoom(ctx, message.roomId, user.username))) {
+      return null;
+    }
+    const revisions = await ctx.db
+      .query("messageRevisions")
+      .withIndex("by_message", (q) => q.eq("messageId", args.messageId))
+      .collect();
+    return [
+      ...revisions.map((revision) => ({ text: revision.text, writtenAt: revision.writtenAt })),
+      { text: message.text, writtenAt: message.editedAt ?? message.timestamp },
+    ];
+  },
+});
+
 export const deleteMessage = mutation({
-  args: { messageId: v.id("messages"), username: v.string() },
+  args: { messageId: v.id("messages") },
   handler: async (ctx, args) => {
-    const message = await ctx.db.get(args.messageId);
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
     if (!message) throw new Error("Message not found");
-    if (message.username !== args.username) throw new Error("You can only delete your own messages");
-    await ctx.db.patch(args.messageId, { deleted: true });
+    // Authors can delete their own messages, moderators can delete anyone's
+    const { member } = await requireMember(ctx, message.roomId, user.username);
+    if (message.username !== user.username && !hasRole(member, "moderator")) {
+      throw new Error("You can only delete your own messages");
+    }
+    if (message.deleted) return true;
+    await ctx.db.patch(args.messageId, {
+      deleted: true,
+      deletedAt: Date.now(),
+      deletedBy: user.username,
+      pinnedAt: undefined,
+      pinnedBy: undefined,
+    });
+    await syncMentions(ctx, args.messageId);
+    if (message.parentId) await refreshThreadSummary(ctx, message.parentId);
     return true;
   },
 });
 
-export const reactToMessage = mutation({
-  args: { messageId: v.id("messages"), user: v.string(), emoji: v.string() },
+// Undo a deletion. Only the author can, only shortly after deleting their own
+// message; removals by moderators stand.
+export const restoreMessage = mutation({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    if (!message || !message.deleted) throw new Error("Message not found");
+    if (message.username !== user.username || message.deletedBy !== user.username) {
+      throw new Error("You can only restore messages you deleted");
+    }
+    if (!message.deletedAt || Date.now() - message.deletedAt > UNDO_DELETE_MS) {
+      throw new Error("This message can no longer be restored");
+    }
+    await ctx.db.patch(args.messageId, { deleted: undefined, deletedAt: undefined, deletedBy: undefined });
+    await syncMentions(ctx, args.messageId);
+    if (message.parentId) await refreshThreadSummary(ctx, message.parentId);
+    return true;
+  },
+});
+
+// Hard-delete messages deleted longer ago than the retention window, along
+// with their files and edit history. Thread parents that still have replies
+// keep an empty tombstone so the thread stays reachable. Run by crons.ts.
+export const purgeDeleted = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - deletedRetentionMs();
+    const expired = await ctx.db
+      .query("messages")
+      .withIndex("by_deleted_at", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const message of expired) {
+      const revisions = await ctx.db
+        .query("messageRevisions")
+        .withIndex("by_message", (q) => q.eq("messageId", message._id))
+        .collect();
+      for (const revision of revisions) await ctx.db.delete(revision._id);
+
+      const reply = await ctx.db
+        .query("messages")
+        .withIndex("by_parent", (q) => q.eq("parentId", message._id))
+        .first();
+      if (reply) {
+        await ctx.db.replace(message._id, {
+          roomId: message.roomId,
+          text: "",
+          username: message.username,
+          timestamp: message.timestamp,
+          color: message.color,
+          deleted: true,
+          parentId: message.parentId,
+          replyCount: message.replyCount,
+          lastReplyAt: message.lastReplyAt,
+          lastReplyBy: message.lastReplyBy,
+        });
+      } else {
+        await ctx.db.delete(message._id);
+      }
+      // Files go once this message no longer refers to them, unless another still does
+      if (message.attachment) {
+        await deleteUnreferencedUpload(ctx, message.attachment.storageId);
+        if (message.attachment.thumbnailId) await deleteUnreferencedUpload(ctx, message.attachment.thumbnailId);
+      }
+      if (message.parentId) await refreshThreadSummary(ctx, message.parentId);
+    }
+
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.messages.purgeDeleted, {});
+    }
+  },
+});
+
+// Pin a message to the top of its room (author or moderator)
+export const pinMessage = mutation({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    if (!message || message.deleted) throw new Error("Message not found");
+    const { member } = await requireMember(ctx, message.roomId, user.username);
+    if (message.username !== user.username && !hasRole(member, "moderator")) {
+      throw new Error("You can only pin your own messages");
+    }
+    if (message.pinnedAt) return true;
+
+    const pinned = await ctx.db
+      .query("messages")
+      .withIndex("by_room_pinned", (q) => q.eq("roomId", message.roomId).gt("pinnedAt", 0))
+      .take(MAX_PINNED);
+    if (pinned.length >= MAX_PINNED) throw new Error(`A room can have at most ${MAX_PINNED} pinned messages`);
+
+    await ctx.db.patch(args.messageId, { pinnedAt: Date.now(), pinnedBy: user.username });
+    return true;
+  },
+});
+
+export const unpinMessage = mutation({
+  args: { messageId: v.id("messages") },
   handler: async (ctx, args) => {
-    const message = await ctx.db.get(args.messageId);
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
     if (!message) throw new Error("Message not found");
+    const { member } = await requireMember(ctx, message.roomId, user.username);
+    if (message.username !== user.username && !hasRole(member, "moderator")) {
+      throw new Error("You can only unpin your own messages");
+    }
+    await ctx.db.patch(args.messageId, { pinnedAt: undefined, pinnedBy: undefined });
+    return true;
+  },
+});
+
+// Pinned messages in a room, most recently pinned first
+export const listPinned = query({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) return [];
+    const pinned = await ctx.db
+      .query("messages")
+      .withIndex("by_room_pinned", (q) => q.eq("roomId", args.roomId).gt("pinnedAt", 0))
+      .order("desc")
+      .take(MAX_PINNED);
+    return await Promise.all(pinned.map((message) => withAttachmentUrls(ctx, message)));
+  },
+});
+
+// Messages that mention the signed-in user, newest first, across every room
+// they can still read
+export const mentions = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return { page: [], isDone: true, continueCursor: "" };
+    const result = await ctx.db
+      .query("mentions")
+      .withIndex("by_username", (q) => q.eq("username", user.username))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const page = await Promise.all(
+      result.page.map(async (mention) => {
+        const [message, room] = await Promise.all([ctx.db.get(mention.messageId), ctx.db.get(mention.roomId)]);
+        if (!message || message.deleted || !room || !(await canReadRoom(ctx, room._id, user.username))) return null;
+        return {
+          _id: mention._id,
+          messageId: message._id,
+          roomId: room._id,
+          roomName: room.name,
+          isDirect: room.kind === "direct",
+          parentId: message.parentId,
+          username: message.username,
+          text: message.text,
+          timestamp: message.timestamp,
+        };
+      })
+    );
+    return { ...result, page: page.filter((mention) => mention !== null) };
+  },
+});
+
+export const reactToMessage = mutation({
+  args: { messageId: v.id("messages"), emoji: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    if (!message || message.deleted) throw new Error("Message not found");
+    await requireMember(ctx, message.roomId, user.username);
+    await enforceRateLimit(ctx, "react", user.username);
+    if (!isEmoji(args.emoji)) throw new Error("Reactions must be a single emoji");
+
+    // Reacting again with the same emoji takes the reaction back
     const reactions = message.reactions || [];
-    // Remove previous reaction by this user (if any)
-    const filtered = reactions.filter(r => r.user !== args.user);
-    filtered.push({ user: args.user, emoji: args.emoji });
-    await ctx.db.patch(args.messageId, { reactions: filtered });
+    const isOwn = (r: { user: string; emoji: string }) => r.user === user.username && r.emoji === args.emoji;
+    if (reactions.some(isOwn)) {
+      await ctx.db.patch(args.messageId, { reactions: reactions.filter((r) => !isOwn(r)) });
+      return true;
+    }
+
+    if (reactions.filter((r) => r.user === user.username).length >= MAX_REACTIONS_PER_USER) {
+      throw new Error(`You can add at most ${MAX_REACTIONS_PER_USER} reactions to a message`);
+    }
+    const distinct = new Set(reactions.map((r) => r.emoji));
+    if (!distinct.has(args.emoji) && distinct.size >= MAX_DISTINCT_REACTIONS) {
+      throw new Error("This message has too many different reactions");
+    }
+    await ctx.db.patch(args.messageId, { reactions: [...reactions, { user: user.username, emoji: args.emoji }] });
     return true;
   },
 });
 
+// Supports free text plus `from:`, `before:`, `after:` and `has:reaction` filters.
+// Text searches are ranked by relevance, filter-only searches are newest first.
 export const searchMessages = query({
-  args: { query: v.string() },
+  args: {
+    roomId: v.id("rooms"),
+    query: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
   handler: async (ctx, args) => {
-    const all = await ctx.db.query("messages").collect();
-    return all.filter(m => !m.deleted && m.text.toLowerCase().includes(args.query.toLowerCase()));
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+    const search = parseSearchQuery(args.query);
+
+    const base = search.text
+      ? ctx.db.query("messages").withSearchIndex("search_text", (q) => {
+          const scoped = q.search("text", search.text).eq("roomId", args.roomId);
+          return search.from ? scoped.eq("username", search.from) : scoped;
+        })
+      : ctx.db
+          .query("messages")
+          .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+          .order("desc");
+
+    const result = await base
+      .filter((q) => {
+        const conditions = [q.neq(q.field("deleted"), true)];
+        if (search.from && !search.text) conditions.push(q.eq(q.field("username"), search.from));
+        if (search.before !== undefined) conditions.push(q.lt(q.field("timestamp"), search.before));
+        if (search.after !== undefined) conditions.push(q.gte(q.field("timestamp"), search.after));
+        if (search.hasReaction) {
+          conditions.push(q.neq(q.field("reactions"), undefined), q.neq(q.field("reactions"), []));
+        }
+        return q.and(...conditions);
+      })
+      .paginate(args.paginationOpts);
+    return { ...result, page: await Promise.all(result.page.map((message) => withAttachmentUrls(ctx, message))) };
   },
 });
 
 export const markDelivered = mutation({
   args: { messageId: v.id("messages") },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const message = await getRoomMessage(ctx, args.messageId);
+    if (!message) return false;
+    if (!(await canReadRoom(ctx, message.roomId, user.username))) return false;
     await ctx.db.patch(args.messageId, { delivered: true });
     return true;
   },
 });
 
+// Advance the user's read cursor in a room to the newest message they have seen
 export const markRead = mutation({
-  args: { messageId: v.id("messages"), username: v.string() },
+  args: { roomId: v.id("rooms"), timestamp: v.number() },
   handler: async (ctx, args) => {
-    const message = await ctx.db.get(args.messageId);
-    if (!message) return false;
-    const readBy = message.readBy || [];
-    if (!readBy.includes(args.username)) {
-      readBy.push(args.username);
-      await ctx.db.patch(args.messageId, { readBy });
-    }
+    const user = await requireUser(ctx);
+    if (!(await getMembership(ctx, args.roomId, user.username))) return false;
+    await advanceReadCursor(ctx, args.roomId, user.username, Math.min(args.timestamp, Date.now()));
     return true;
   },
 });
 
+// Show or clear the user's typing indicator in a room. Indicators expire on
+// their own TYPING_TTL_MS after the last refresh, so a client that goes away
+// mid-sentence does not leave one behind.
 export const setTyping = mutation({
-  args: { username: v.string(), isTyping: v.boolean() },
+  args: { roomId: v.id("rooms"), isTyping: v.boolean() },
   handler: async (ctx, args) => {
-    if (args.isTyping) {
-      // Upsert typing record
-      const existing = await ctx.db
-        .query("typing")
-        .filter((q) => q.eq(q.field("username"), args.username))
-        .first();
-      if (existing) {
-        await ctx.db.patch(existing._id, { timestamp: Date.now() });
-      } else {
-        await ctx.db.insert("typing", { username: args.username, timestamp: Date.now() });
-      }
-    } else {
-      // Remove typing record
-      const existing = await ctx.db
-        .query("typing")
-        .filter((q) => q.eq(q.field("username"), args.username))
-        .first();
+    const user = await requireUser(ctx);
+    await requireMember(ctx, args.roomId, user.username);
+    const existing = await ctx.db
+      .query("typing")
+      .withIndex("by_room_username", (q) => q.eq("roomId", args.roomId).eq("username", user.username))
+      .unique();
+    if (!args.isTyping) {
       if (existing) await ctx.db.delete(existing._id);
+      return true;
+    }
+
+    // Typing updates are best effort, so throttled calls are dropped quietly
+    const { ok } = await consumeRateLimit(ctx, "typing", user.username);
+    if (!ok) return false;
+    if (existing) {
+      await ctx.db.patch(existing._id, { timestamp: Date.now() });
+    } else {
+      const typingId = await ctx.db.insert("typing", {
+        roomId: args.roomId,
+        username: user.username,
+        timestamp: Date.now(),
+      });
+      await ctx.scheduler.runAfter(TYPING_TTL_MS, internal.messages.expireTyping, { typingId });
     }
     return true;
   },
 });
 
+// Delete a typing indicator once it has expired. Refreshes push the expiry
+// back, so an indicator still in use is checked again when it would run out.
+export const expireTyping = internalMutation({
+  args: { typingId: v.id("typing") },
+  handler: async (ctx, args) => {
+    const typing = await ctx.db.get(args.typingId);
+    if (!typing) return;
+    const remaining = typing.timestamp + TYPING_TTL_MS - Date.now();
+    if (remaining > 0) {
+      await ctx.scheduler.runAfter(remaining, internal.messages.expireTyping, args);
+    } else {
+      await ctx.db.delete(typing._id);
+    }
+  },
+});
+
+// Other users typing in a room right now
 export const getTypingUsers = query({
-  args: {},
-  handler: async (ctx) => {
-    // Only show users who typed in the last 5 seconds
-    const now = Date.now();
-    return (await ctx.db.query("typing").collect()).filter(
-      (t) => now - t.timestamp < 5000
-    );
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) return [];
+    // Expired rows are about to be deleted but may not be yet
+    const typing = await ctx.db
+      .query("typing")
+      .withIndex("by_room_timestamp", (q) => q.eq("roomId", args.roomId).gt("timestamp", Date.now() - TYPING_TTL_MS))
+      .collect();
+    return typing
+      .filter((t) => t.username !== user.username)
+      .map(({ username, timestamp }) => ({ username, timestamp }));
   },
-}); 
\ No newline at end of file
+});
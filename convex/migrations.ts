@@ -0,0 +1,176 @@
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { DEFAULT_ROOM, DEFAULT_ROOM_TOPIC } from "./rooms";
+
+const BATCH_SIZE = 20;
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(",");
+  const contentType = header.match(/^data:([^;]+)/)?.[1] ?? "image/jpeg";
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: contentType });
+}
+
+// Move inline data-URL avatars from `users` into file storage and drop the
+// copies duplicated into `savedAccounts`. Run once per deployment:
+//   npx convex run migrations:avatarsToStorage
+export const avatarsToStorage = internalAction({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const batch = await ctx.runQuery(internal.migrations.inlineAvatarBatch, {
+      cursor: args.cursor ?? null,
+    });
+
+    for (const user of batch.users) {
+      const storageId = await ctx.storage.store(dataUrlToBlob(user.avatar));
+      await ctx.runMutation(internal.migrations.setStoredAvatar, { userId: user._id, storageId });
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.avatarsToStorage, {
+        cursor: batch.continueCursor,
+      });
+    } else {
+      await ctx.runMutation(internal.migrations.clearSavedAccountAvatars, {});
+    }
+  },
+});
+
+export const inlineAvatarBatch = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor, numItems: BATCH_SIZE });
+    const users = result.page.flatMap((user) =>
+      user.avatar?.startsWith("data:") ? [{ _id: user._id, avatar: user.avatar }] : []
+    );
+    return { users, isDone: result.isDone, continueCursor: result.continueCursor };
+  },
+});
+
+// The Convex runtime cannot resize images, so a migrated avatar uses the same
+// file for every size until the user uploads a new one
+export const setStoredAvatar = internalMutation({
+  args: { userId: v.id("users"), storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.userId, {
+      avatar: undefined,
+      avatarStorageIds: { small: args.storageId, medium: args.storageId, large: args.storageId },
+    });
+  },
+});
+
+export const clearSavedAccountAvatars = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const accounts = await ctx.db.query("savedAccounts").collect();
+    for (const account of accounts) {
+      if (account.avatar !== undefined) await ctx.db.patch(account._id, { avatar: undefined });
+    }
+  },
+});
+
+// Give messages deleted before deletion timestamps existed a deletedAt, so
+// the purge cron picks them up. Run once per deployment:
+//   npx convex run migrations:backfillDeletedAt
+export const backfillDeletedAt = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("messages")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+    for (const message of result.page) {
+      if (message.deleted && message.deletedAt === undefined) {
+        await ctx.db.patch(message._id, { deletedAt: Date.now() });
+      }
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillDeletedAt, { cursor: result.continueCursor });
+    }
+  },
+});
+
+// Presence used to be set directly by clients, leaving users whose tab never
+// said goodbye online forever. Mark everyone without a heartbeat session
+// offline. Run once per deployment:
+//   npx convex run migrations:resetStalePresence
+export const resetStalePresence = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+    for (const user of result.page) {
+      if (!user.isOnline) continue;
+      const session = await ctx.db
+        .query("presenceSessions")
+        .withIndex("by_username", (q) => q.eq("username", user.username))
+        .first();
+      if (!session) await ctx.db.patch(user._id, { isOnline: false, presence: "offline" });
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.resetStalePresence, { cursor: result.continueCursor });
+    }
+  },
+});
+
+// Typing indicators written before they expired on their own were left behind
+// by clients that disconnected. Give every existing one its expiry. Run once
+// per deployment:
+//   npx convex run migrations:expireLegacyTyping
+export const expireLegacyTyping = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("typing")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+    for (const typing of result.page) {
+      await ctx.scheduler.runAfter(0, internal.messages.expireTyping, { typingId: typing._id });
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.expireLegacyTyping, { cursor: result.continueCursor });
+    }
+  },
+});
+
+// Messages and typing rows from before rooms have no roomId: move the messages
+// into #general, creating it if needed, and drop the typing rows. Run once per
+// deployment before `roomId` is made required in schema.ts:
+//   npx convex run migrations:assignRooms
+export const assignRooms = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_room", (q) => q.eq("roomId", undefined))
+      .take(BATCH_SIZE);
+    const typing = await ctx.db
+      .query("typing")
+      .withIndex("by_room_username", (q) => q.eq("roomId", undefined))
+      .take(BATCH_SIZE);
+    for (const row of typing) await ctx.db.delete(row._id);
+
+    if (messages.length > 0) {
+      const general = await ctx.db
+        .query("rooms")
+        .withIndex("by_name", (q) => q.eq("name", DEFAULT_ROOM))
+        .first();
+      const roomId =
+        general?._id ??
+        (await ctx.db.insert("rooms", {
+          name: DEFAULT_ROOM,
+          topic: DEFAULT_ROOM_TOPIC,
+          visibility: "public",
+          createdBy: messages[0].username,
+          createdAt: Date.now(),
+        }));
+      for (const message of messages) await ctx.db.patch(message._id, { roomId });
+    }
+
+    if (messages.length === BATCH_SIZE || typing.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.migrations.assignRooms, {});
+    }
+  },
+});
@@ -0,0 +1,61 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUser } from "./lib/auth";
+import { otherParticipants } from "./lib/membership";
+
+// Newest messages looked at per room; older ones are not worth a notification
+const PER_ROOM_LIMIT = 10;
+const PREVIEW_LENGTH = 140;
+
+// Messages from others posted after `since` in the user's rooms, oldest
+// first, for desktop notifications. Muted rooms only report mentions.
+export const incoming = query({
+  args: { since: v.number() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+    const memberships = await ctx.db
+      .query("roomMembers")
+      .withIndex("by_username", (q) => q.eq("username", user.username))
+      .collect();
+
+    const perRoom = await Promise.all(
+      memberships.map(async (membership) => {
+        const room = await ctx.db.get(membership.roomId);
+        if (!room) return [];
+        const messages = await ctx.db
+          .query("messages")
+          .withIndex("by_room", (q) => q.eq("roomId", room._id).gt("_creationTime", args.since))
+          .order("desc")
+          .take(PER_ROOM_LIMIT);
+        const title =
+          room.kind === "direct"
+            ? (await otherParticipants(ctx, room._id, user.username)).join(", ")
+            : `#${room.name}`;
+
+        return messages
+          .filter((message) => message.username !== user.username && !message.deleted)
+          .map((message) => {
+            const mentioned = !!message.mentions?.includes(user.username);
+            const reason: "mention" | "direct" | "message" = mentioned
+              ? "mention"
+              : room.kind === "direct"
+                ? "direct"
+                : "message";
+            return {
+              _id: message._id,
+              roomId: room._id,
+              parentId: message.parentId,
+              title,
+              username: message.username,
+              text: message.text.slice(0, PREVIEW_LENGTH) || message.attachment?.name || "",
+              timestamp: message.timestamp,
+              reason,
+            };
+          })
+          .filter((notification) => !membership.muted || notification.reason === "mention");
+      })
+    );
+    return perRoom.flat().sort((a, b) => a.timestamp - b.timestamp);
+  },
+});
@@ -0,0 +1,76 @@
+import { internalMutation, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { refreshPresence, SESSION_TIMEOUT_MS } from "./lib/presence";
+
+const SWEEP_BATCH_SIZE = 100;
+
+// Sent by every open tab every HEARTBEAT_INTERVAL_MS, and right away when the
+// tab goes hidden, idle or active again
+export const heartbeat = mutation({
+  args: {
+    sessionId: v.string(),
+    state: v.union(v.literal("active"), v.literal("away")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const now = Date.now();
+    const session = await ctx.db
+      .query("presenceSessions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+
+    if (session && session.username === user.username) {
+      await ctx.db.patch(session._id, { state: args.state, lastHeartbeat: now });
+      // Only a change of state can change the user's presence
+      if (session.state === args.state && user.isOnline) return;
+    } else {
+      // A tab that switched accounts takes its session along
+      if (session) await ctx.db.delete(session._id);
+      await ctx.db.insert("presenceSessions", {
+        username: user.username,
+        sessionId: args.sessionId,
+        state: args.state,
+        lastHeartbeat: now,
+      });
+      if (session) await refreshPresence(ctx, session.username);
+    }
+    await refreshPresence(ctx, user.username);
+    if (args.state === "active") await ctx.db.patch(user._id, { lastActivity: now });
+  },
+});
+
+// Best effort when a tab closes or signs out; the sweep catches the rest
+export const leave = mutation({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    const session = await ctx.db
+      .query("presenceSessions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+    if (!user || !session || session.username !== user.username) return;
+    await ctx.db.delete(session._id);
+    await refreshPresence(ctx, user.username);
+  },
+});
+
+// Drop sessions that stopped sending heartbeats and update their users'
+// presence. Run by crons.ts.
+export const sweep = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("presenceSessions")
+      .withIndex("by_last_heartbeat", (q) => q.lt("lastHeartbeat", Date.now() - SESSION_TIMEOUT_MS))
+      .take(SWEEP_BATCH_SIZE);
+    for (const session of expired) await ctx.db.delete(session._id);
+    for (const username of Array.from(new Set(expired.map((s) => s.username)))) {
+      await refreshPresence(ctx, username);
+    }
+    if (expired.length === SWEEP_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.presence.sweep, {});
+    }
+  },
+});
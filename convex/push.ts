@@ -0,0 +1,148 @@
+import { internalMutation, internalQuery, mutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { getRoomMessage, otherParticipants } from "./lib/membership";
+import { isAllowedPushEndpoint } from "./lib/push";
+
+const PREVIEW_LENGTH = 140;
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+const subscriptionArgs = {
+  endpoint: v.string(),
+  p256dh: v.string(),
+  auth: v.string(),
+  timeZone: v.optional(v.string()),
+};
+
+// Store a browser's subscription. An endpoint registered to another account
+// is never handed over; that browser has to subscribe afresh. The oldest
+// subscriptions beyond the per-user limit are dropped.
+async function saveSubscription(
+  ctx: MutationCtx,
+  username: string,
+  subscription: { endpoint: string; p256dh: string; auth: string; timeZone?: string }
+) {
+  if (!isAllowedPushEndpoint(subscription.endpoint)) throw new Error("Invalid push endpoint");
+  const existing = await ctx.db
+    .query("pushSubscriptions")
+    .withIndex("by_endpoint", (q) => q.eq("endpoint", subscription.endpoint))
+    .first();
+  if (existing) {
+    if (existing.username !== username) throw new Error("This push subscription belongs to another account");
+    await ctx.db.patch(existing._id, subscription);
+    return existing._id;
+  }
+
+  const owned = await ctx.db
+    .query("pushSubscriptions")
+    .withIndex("by_username", (q) => q.eq("username", username))
+    .collect();
+  for (const stale of owned.slice(0, Math.max(0, owned.length - MAX_SUBSCRIPTIONS_PER_USER + 1))) {
+    await ctx.db.delete(stale._id);
+  }
+  return await ctx.db.insert("pushSubscriptions", { ...subscription, username, createdAt: Date.now() });
+}
+
+// The VAPID public key browsers subscribe with; null when push is not set up
+export const publicKey = query({
+  args: {},
+  handler: async () => {
+    return process.env.VAPID_PUBLIC_KEY ?? null;
+  },
+});
+
+export const subscribe = mutation({
+  args: subscriptionArgs,
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await saveSubscription(ctx, user.username, args);
+    return true;
+  },
+});
+
+export const unsubscribe = mutation({
+  args: { endpoint: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return false;
+    const subscription = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+    if (subscription?.username === user.username) await ctx.db.delete(subscription._id);
+    return true;
+  },
+});
+
+// Register a subscription for any user, e.g. the local stand-in push endpoint:
+//   npx convex run push:addSubscription '{"username": "alice", ...}'
+export const addSubscription = internalMutation({
+  args: { username: v.string(), ...subscriptionArgs },
+  handler: async (ctx, { username, ...subscription }) => {
+    return await saveSubscription(ctx, username, subscription);
+  },
+});
+
+// Everything webPush.send needs: per recipient, their subscriptions, quiet
+// hours and the notification to show. Recipients who came back online since
+// the push was queued are skipped.
+export const deliveryTargets = internalQuery({
+  args: { messageId: v.id("messages"), usernames: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const message = await getRoomMessage(ctx, args.messageId);
+    const room = message && (await ctx.db.get(message.roomId));
+    if (!message || message.deleted || !room) return [];
+
+    const targets = [];
+    for (const username of args.usernames) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_username", (q) => q.eq("username", username))
+        .first();
+      if (!user || user.isOnline) continue;
+      // Rows saved before endpoints were checked may point anywhere
+      const subscriptions = (
+        await ctx.db
+          .query("pushSubscriptions")
+          .withIndex("by_username", (q) => q.eq("username", username))
+          .collect()
+      ).filter((subscription) => isAllowedPushEndpoint(subscription.endpoint));
+      if (subscriptions.length === 0) continue;
+
+      const conversation =
+        room.kind === "direct" ? (await otherParticipants(ctx, room._id, username)).join(", ") : `#${room.name}`;
+      const title = message.mentions?.includes(username)
+        ? `${message.username} mentioned you in ${conversation}`
+        : conversation === message.username
+          ? message.username
+          : `${message.username} in ${conversation}`;
+      const notification = {
+        title,
+        body: message.text.slice(0, PREVIEW_LENGTH) || message.attachment?.name || "",
+        tag: room._id,
+        // Replies open on their thread's parent
+        url: `/?room=${room._id}&message=${message.parentId ?? message._id}`,
+      };
+      targets.push({
+        quietHours: user.preferences.quietHours,
+        notification,
+        subscriptions: subscriptions.map(({ endpoint, p256dh, auth, timeZone }) => ({ endpoint, p256dh, auth, timeZone })),
+      });
+    }
+    return targets;
+  },
+});
+
+// Drop subscriptions the push service reported as gone
+export const removeSubscriptions = internalMutation({
+  args: { endpoints: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    for (const endpoint of args.endpoints) {
+      const subscription = await ctx.db
+        .query("pushSubscriptions")
+        .withIndex("by_endpoint", (q) => q.eq("endpoint", endpoint))
+        .first();
+      if (subscription) await ctx.db.delete(subscription._id);
+    }
+  },
+});
@@ -0,0 +1,256 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { canReadRoom, getMembership, otherParticipants, outranks, requireMember } from "./lib/membership";
+import { countUnread, lastReadAt } from "./lib/readState";
+
+export const DEFAULT_ROOM = "general";
+export const DEFAULT_ROOM_TOPIC = "Everything that doesn't have its own channel";
+
+// List channels visible in the sidebar: public rooms plus private rooms the
+// user belongs to. Direct messages are listed by directMessages.list.
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+    const memberships = await ctx.db
+      .query("roomMembers")
+      .withIndex("by_username", (q) => q.eq("username", user.username))
+      .collect();
+    const byRoom = new Map(memberships.map((m) => [m.roomId, m]));
+
+    const publicRooms = await ctx.db
+      .query("rooms")
+      .withIndex("by_kind_visibility", (q) => q.eq("kind", undefined).eq("visibility", "public"))
+      .collect();
+    const privateRooms = (await Promise.all(memberships.map((m) => ctx.db.get(m.roomId)))).flatMap((room) =>
+      room && !room.kind && room.visibility === "private" ? [room] : []
+    );
+    const visible = [...publicRooms, ...privateRooms];
+    const withState = await Promise.all(
+      visible.map(async (room) => {
+        const member = byRoom.get(room._id);
+        return {
+          ...room,
+          role: member?.role ?? null,
+          muted: !!member?.muted,
+          unreadCount: member ? await countUnread(ctx, member) : 0,
+        };
+      })
+    );
+    return withState.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Get a single room along with the user's role and read cursor in it. Direct
+// messages also carry the other participants, which stand in for the room name.
+export const get = query({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) return null;
+    const room = await ctx.db.get(args.roomId);
+    if (!room) return null;
+    const member = await getMembership(ctx, args.roomId, user.username);
+    const participants = room.kind === "direct" ? await otherParticipants(ctx, room._id, user.username) : null;
+    return {
+      ...room,
+      role: member?.role ?? null,
+      muted: !!member?.muted,
+      participants,
+      lastReadAt: member ? await lastReadAt(ctx, member) : null,
+    };
+  },
+});
+
+// Create a new room, the creator becomes its owner
+export const create = mutation({
+  args: {
+    name: v.string(),
+    topic: v.optional(v.string()),
+    visibility: v.union(v.literal("public"), v.literal("private")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const name = args.name.trim().toLowerCase().replace(/\s+/g, "-");
+    if (!name) throw new Error("Room name is required");
+
+    const existing = await ctx.db
+      .query("rooms")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (existing) throw new Error("A room with this name already exists");
+
+    const roomId = await ctx.db.insert("rooms", {
+      name,
+      topic: args.topic,
+      visibility: args.visibility,
+      createdBy: user.username,
+      createdAt: Date.now(),
+    });
+    await ctx.db.insert("roomMembers", {
+      roomId,
+      username: user.username,
+      role: "owner",
+      joinedAt: Date.now(),
+    });
+    return roomId;
+  },
+});
+
+// Make sure the default room exists, join it and return its id
+export const ensureDefault = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+    const existing = await ctx.db
+      .query("rooms")
+      .withIndex("by_name", (q) => q.eq("name", DEFAULT_ROOM))
+      .first();
+
+    const roomId = existing
+      ? existing._id
+      : await ctx.db.insert("rooms", {
+          name: DEFAULT_ROOM,
+          topic: DEFAULT_ROOM_TOPIC,
+          visibility: "public",
+          createdBy: user.username,
+          createdAt: Date.now(),
+        });
+
+    if (!(await getMembership(ctx, roomId, user.username))) {
+      await ctx.db.insert("roomMembers", {
+        roomId,
+        username: user.username,
+        role: existing ? "member" : "owner",
+        joinedAt: Date.now(),
+      });
+    }
+    return roomId;
+  },
+});
+
+// List the members of a room
+export const listMembers = query({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !(await canReadRoom(ctx, args.roomId, user.username))) return [];
+    return await ctx.db
+      .query("roomMembers")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+  },
+});
+
+// Join a public room
+export const join = mutation({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const room = await ctx.db.get(args.roomId);
+    if (!room) throw new Error("Room not found");
+    if (room.visibility === "private") throw new Error("This room is invite-only");
+    if (await getMembership(ctx, args.roomId, user.username)) return true;
+
+    await ctx.db.insert("roomMembers", {
+      roomId: args.roomId,
+      username: user.username,
+      role: "member",
+      joinedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+// Leave a room; an owner leaving hands ownership to the longest-standing moderator or member
+export const leave = mutation({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { member } = await requireMember(ctx, args.roomId, user.username);
+    await ctx.db.delete(member._id);
+
+    if (member.role === "owner") {
+      const remaining = await ctx.db
+        .query("roomMembers")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+        .collect();
+      remaining.sort((a, b) => a.joinedAt - b.joinedAt);
+      const successor = remaining.find((m) => m.role === "moderator") ?? remaining[0];
+      if (successor) await ctx.db.patch(successor._id, { role: "owner" });
+    }
+    return true;
+  },
+});
+
+// Invite a user into a room (moderators and owners only)
+export const invite = mutation({
+  args: { roomId: v.id("rooms"), invitee: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await requireMember(ctx, args.roomId, user.username, "moderator");
+
+    const invitee = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", args.invitee))
+      .first();
+    if (!invitee) throw new Error("User not found");
+    if (await getMembership(ctx, args.roomId, args.invitee)) return true;
+
+    await ctx.db.insert("roomMembers", {
+      roomId: args.roomId,
+      username: args.invitee,
+      role: "member",
+      joinedAt: Date.now(),
+      invitedBy: user.username,
+    });
+    return true;
+  },
+});
+
+// Remove a member from a room (only members of a lower role can be kicked)
+export const kick = mutation({
+  args: { roomId: v.id("rooms"), target: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { member } = await requireMember(ctx, args.roomId, user.username, "moderator");
+    const target = await getMembership(ctx, args.roomId, args.target);
+    if (!target) throw new Error("User is not a member of this room");
+    if (!outranks(member, target)) throw new Error("You cannot remove this member");
+
+    await ctx.db.delete(target._id);
+    return true;
+  },
+});
+
+// Mute or unmute a room for yourself; muted rooms only notify on mentions
+export const setMuted = mutation({
+  args: { roomId: v.id("rooms"), muted: v.boolean() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { member } = await requireMember(ctx, args.roomId, user.username);
+    await ctx.db.patch(member._id, { muted: args.muted || undefined });
+    return true;
+  },
+});
+
+// Promote or demote a member (owner only)
+export const setRole = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    target: v.string(),
+    role: v.union(v.literal("moderator"), v.literal("member")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await requireMember(ctx, args.roomId, user.username, "owner");
+    const target = await getMembership(ctx, args.roomId, args.target);
+    if (!target) throw new Error("User is not a member of this room");
+    if (target.role === "owner") throw new Error("The owner's role cannot be changed");
+
+    await ctx.db.patch(target._id, { role: args.role });
+    return true;
+  },
+});
@@ -0,0 +1,127 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { getCurrentUser, requireUser } from "./lib/auth";
+import { getMembership, requireMember } from "./lib/membership";
+import { resolveMentions, syncMentions } from "./lib/mentions";
+import { schedulePushNotifications } from "./lib/push";
+import { enforceRateLimit } from "./lib/rateLimit";
+import { advanceReadCursor } from "./lib/readState";
+
+const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_PENDING_PER_USER = 25;
+
+function validateSchedule(text: string, sendAt: number) {
+  if (!text.trim()) throw new Error("Message is empty");
+  const now = Date.now();
+  if (sendAt <= now) throw new Error("Pick a time in the future");
+  if (sendAt > now + MAX_SCHEDULE_AHEAD_MS) throw new Error("Messages can be scheduled up to 30 days ahead");
+}
+
+// Queue a top-level message to be posted to a room at `sendAt`
+export const scheduleMessage = mutation({
+  args: { roomId: v.id("rooms"), text: v.string(), sendAt: v.number() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await requireMember(ctx, args.roomId, user.username);
+    validateSchedule(args.text, args.sendAt);
+    await enforceRateLimit(ctx, "send", user.username);
+
+    const pending = await ctx.db
+      .query("scheduledMessages")
+      .withIndex("by_username", (q) => q.eq("username", user.username))
+      .take(MAX_PENDING_PER_USER);
+    if (pending.length >= MAX_PENDING_PER_USER) {
+      throw new Error(`You can have at most ${MAX_PENDING_PER_USER} scheduled messages`);
+    }
+
+    const scheduledId = await ctx.db.insert("scheduledMessages", {
+      roomId: args.roomId,
+      username: user.username,
+      text: args.text,
+      sendAt: args.sendAt,
+      createdAt: Date.now(),
+    });
+    const jobId = await ctx.scheduler.runAt(args.sendAt, internal.scheduledMessages.deliver, { scheduledId });
+    await ctx.db.patch(scheduledId, { jobId });
+    return scheduledId;
+  },
+});
+
+// The current user's pending messages for a room, soonest first
+export const listScheduled = query({
+  args: { roomId: v.id("rooms") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+    return await ctx.db
+      .query("scheduledMessages")
+      .withIndex("by_username_room", (q) => q.eq("username", user.username).eq("roomId", args.roomId))
+      .collect();
+  },
+});
+
+// Change the text or send time of a pending message
+export const updateScheduled = mutation({
+  args: { scheduledId: v.id("scheduledMessages"), text: v.string(), sendAt: v.number() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const scheduled = await ctx.db.get(args.scheduledId);
+    if (!scheduled || scheduled.username !== user.username) throw new Error("Scheduled message not found");
+    validateSchedule(args.text, args.sendAt);
+
+    let jobId = scheduled.jobId;
+    if (args.sendAt !== scheduled.sendAt) {
+      if (jobId) await ctx.scheduler.cancel(jobId);
+      jobId = await ctx.scheduler.runAt(args.sendAt, internal.scheduledMessages.deliver, {
+        scheduledId: scheduled._id,
+      });
+    }
+    await ctx.db.patch(scheduled._id, { text: args.text, sendAt: args.sendAt, jobId });
+    return true;
+  },
+});
+
+export const cancelScheduled = mutation({
+  args: { scheduledId: v.id("scheduledMessages") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const scheduled = await ctx.db.get(args.scheduledId);
+    if (!scheduled || scheduled.username !== user.username) throw new Error("Scheduled message not found");
+    if (scheduled.jobId) await ctx.scheduler.cancel(scheduled.jobId);
+    await ctx.db.delete(scheduled._id);
+    return true;
+  },
+});
+
+// Post a scheduled message. Dropped quietly if it was cancelled or the author
+// has left the room in the meantime.
+export const deliver = internalMutation({
+  args: { scheduledId: v.id("scheduledMessages") },
+  handler: async (ctx, args) => {
+    const scheduled = await ctx.db.get(args.scheduledId);
+    if (!scheduled) return;
+    await ctx.db.delete(scheduled._id);
+
+    const member = await getMembership(ctx, scheduled.roomId, scheduled.username);
+    const author = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", scheduled.username))
+      .first();
+    if (!member || !author) return;
+
+    const timestamp = Date.now();
+    const messageId = await ctx.db.insert("messages", {
+      roomId: scheduled.roomId,
+      text: scheduled.text,
+      username: author.username,
+      color: author.color,
+      timestamp,
+      delivered: true,
+      mentions: await resolveMentions(ctx, scheduled.roomId, scheduled.text, author.username),
+    });
+    await syncMentions(ctx, messageId);
+    await schedulePushNotifications(ctx, messageId);
+    await advanceReadCursor(ctx, scheduled.roomId, author.username, timestamp);
+  },
+});
@@ -2,42 +2,124 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
 export default defineSchema({
+  rooms: defineTable({
+    name: v.string(),                                  // Channel name, unique; empty for direct messages
+    topic: v.optional(v.string()),                     // Short description shown in the header
+    visibility: v.union(v.literal("public"), v.literal("private")),
+    createdBy: v.string(),                             // Username of the creator
+    createdAt: v.number(),
+    kind: v.optional(v.literal("direct")),             // Unset for channels
+    participantKey: v.optional(v.string()),            // Direct messages: sorted participant usernames
+  })
+    .index("by_name", ["name"])
+    .index("by_participant_key", ["participantKey"])
+    .index("by_kind_visibility", ["kind", "visibility"]),
+  roomMembers: defineTable({
+    roomId: v.id("rooms"),
+    username: v.string(),
+    role: v.union(v.literal("owner"), v.literal("moderator"), v.literal("member")),
+    joinedAt: v.number(),
+    invitedBy: v.optional(v.string()),                 // Set when added through an invite
+    muted: v.optional(v.boolean()),                    // Only mentions notify
+  })
+    .index("by_room", ["roomId"])
+    .index("by_room_username", ["roomId", "username"])
+    .index("by_username", ["username"]),
   messages: defineTable({
+    roomId: v.optional(v.id("rooms")),           // Unset on messages from before rooms, see migrations:assignRooms
     text: v.string(),
     username: v.string(),
     timestamp: v.number(),
     color: v.string(),
     edited: v.optional(v.boolean()),
+    editedAt: v.optional(v.number()),           // When the current text was written
     deleted: v.optional(v.boolean()),
+    deletedAt: v.optional(v.number()),          // Purged once the retention window passes
+    deletedBy: v.optional(v.string()),
     reactions: v.optional(v.array(v.object({ user: v.string(), emoji: v.string() }))),
     delivered: v.optional(v.boolean()),
-    readBy: v.optional(v.array(v.string())),
-  }),
+    readBy: v.optional(v.array(v.string())),   // Legacy; receipts now derive from readCursors
+    parentId: v.optional(v.id("messages")),    // Set on thread replies
+    replyCount: v.optional(v.number()),        // Thread metadata, set on the parent
+    lastReplyAt: v.optional(v.number()),
+    lastReplyBy: v.optional(v.string()),
+    pinnedAt: v.optional(v.number()),
+    quotedMessageId: v.optional(v.id("messages")), // Quoted message in the same room
+    forwardedFrom: v.optional(v.id("messages")),   // Original message, possibly in another room
+    mentions: v.optional(v.array(v.string())),     // Usernames mentioned with @, see lib/mentions
+    clientId: v.optional(v.string()),              // Generated by the sender so retried sends are not duplicated
+    pinnedBy: v.optional(v.string()),
+    attachment: v.optional(v.object({
+      storageId: v.id("_storage"),
+      thumbnailId: v.optional(v.id("_storage")), // Downscaled preview for images
+      name: v.string(),
+      contentType: v.string(),
+      size: v.number(),
+    })),
+  })
+    .index("by_room", ["roomId"])
+    .index("by_room_parent", ["roomId", "parentId", "timestamp"])
+    .index("by_parent", ["parentId"])
+    .index("by_room_pinned", ["roomId", "pinnedAt"])
+    .index("by_deleted_at", ["deletedAt"])
+    .index("by_client_id", ["clientId"])
+    .index("by_attachment", ["attachment.storageId"])
+    .index("by_thumbnail", ["attachment.thumbnailId"])
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["roomId", "username"],
+    }),
   
   users: defineTable({
+    tokenIdentifier: v.optional(v.string()), // Auth identity, unset for pre-auth accounts
     username: v.string(),           // Username
     color: v.string(),              // Custom color
     status: v.string(),            // Status message
-    avatar: v.optional(v.string()), // Avatar URL or data
+    avatar: v.optional(v.string()), // External avatar URL (legacy rows may hold a data URL)
+    avatarStorageIds: v.optional(v.object({     // Uploaded avatar, one file per size
+      small: v.id("_storage"),
+      medium: v.id("_storage"),
+      large: v.id("_storage"),
+    })),
     preferences: v.object({
       theme: v.optional(v.string()),
       notifications: v.optional(v.boolean()),
       sound: v.optional(v.boolean()),
+      skinTone: v.optional(v.number()),                // Emoji skin tone, 0 (default) to 5
+      recentEmojis: v.optional(v.array(v.string())),   // Most recently used first
+      quietHours: v.optional(v.object({                // Do not disturb, in minutes after local midnight
+        enabled: v.boolean(),
+        start: v.number(),
+        end: v.number(),
+      })),
     }),
     lastSeen: v.optional(v.number()),          // Last seen timestamp
-    isOnline: v.optional(v.boolean()),         // Online status
+    isOnline: v.optional(v.boolean()),         // Any live session; maintained by lib/presence
+    presence: v.optional(v.union(v.literal("online"), v.literal("away"), v.literal("offline"))),
     lastActivity: v.optional(v.number()),      // Last activity timestamp
-  }).index("by_username", ["username"]),
+  })
+    .index("by_username", ["username"])
+    .index("by_token", ["tokenIdentifier"])
+    .index("by_avatar_small", ["avatarStorageIds.small"])
+    .index("by_avatar_medium", ["avatarStorageIds.medium"])
+    .index("by_avatar_large", ["avatarStorageIds.large"]),
   savedAccounts: defineTable({
     deviceId: v.string(),
     username: v.string(),
     color: v.string(),
     status: v.string(),
-    avatar: v.optional(v.string()),
+    avatar: v.optional(v.string()),            // Legacy, avatars are resolved from `users`
     preferences: v.object({
       theme: v.optional(v.string()),
       notifications: v.optional(v.boolean()),
       sound: v.optional(v.boolean()),
+      skinTone: v.optional(v.number()),                // Emoji skin tone, 0 (default) to 5
+      recentEmojis: v.optional(v.array(v.string())),   // Most recently used first
+      quietHours: v.optional(v.object({                // Do not disturb, in minutes after local midnight
+        enabled: v.boolean(),
+        start: v.number(),
+        end: v.number(),
+      })),
     }),
     lastUsed: v.number(),
   }).index("by_device", ["deviceId"]),
@@ -47,8 +129,68 @@ export default defineSchema({
     timestamp: v.number(),
     details: v.optional(v.string()),
   }).index("by_username", ["username"]),
+  mentions: defineTable({
+    username: v.string(),                      // Who was mentioned
+    messageId: v.id("messages"),
+    roomId: v.id("rooms"),
+    mentionedBy: v.string(),
+    timestamp: v.number(),                     // The message's timestamp
+  })
+    .index("by_username", ["username", "timestamp"])
+    .index("by_message", ["messageId"]),
+  messageRevisions: defineTable({
+    messageId: v.id("messages"),
+    text: v.string(),                          // Text before the edit
+    writtenAt: v.number(),                     // When that text was first written
+    replacedAt: v.number(),                    // When the edit replaced it
+  }).index("by_message", ["messageId"]),
+  scheduledMessages: defineTable({
+    roomId: v.id("rooms"),
+    username: v.string(),                      // Author
+    text: v.string(),
+    sendAt: v.number(),
+    jobId: v.optional(v.id("_scheduled_functions")), // Pending deliver job
+    createdAt: v.number(),
+  })
+    .index("by_username", ["username"])
+    .index("by_username_room", ["username", "roomId", "sendAt"]),
+  pushSubscriptions: defineTable({
+    username: v.string(),
+    endpoint: v.string(),                      // Push service URL, one per browser profile
+    p256dh: v.string(),                        // Browser's encryption public key, base64url
+    auth: v.string(),                          // Browser's authentication secret, base64url
+    timeZone: v.optional(v.string()),          // IANA zone of the browser, for quiet hours
+    createdAt: v.number(),
+  })
+    .index("by_username", ["username"])
+    .index("by_endpoint", ["endpoint"]),
+  presenceSessions: defineTable({
+    username: v.string(),
+    sessionId: v.string(),                     // Generated by each browser tab
+    state: v.union(v.literal("active"), v.literal("away")),
+    lastHeartbeat: v.number(),
+  })
+    .index("by_session", ["sessionId"])
+    .index("by_username", ["username"])
+    .index("by_last_heartbeat", ["lastHeartbeat"]),
+  readCursors: defineTable({
+    roomId: v.id("rooms"),
+    username: v.string(),
+    lastReadAt: v.number(),                    // Timestamp of the newest message read
+  })
+    .index("by_room", ["roomId"])
+    .index("by_room_username", ["roomId", "username"]),
   typing: defineTable({
+    roomId: v.optional(v.id("rooms")),           // Unset on rows from before rooms, see migrations:assignRooms
     username: v.string(),
-    timestamp: v.number(),
-  }),
+    timestamp: v.number(),                     // Last refresh; expires TYPING_TTL_MS later
+  })
+    .index("by_room_username", ["roomId", "username"])
+    .index("by_room_timestamp", ["roomId", "timestamp"]),
+  rateLimits: defineTable({
+    username: v.string(),
+    name: v.string(), // key of RATE_LIMITS in lib/rateLimit
+    tokens: v.number(),
+    updatedAt: v.number(),
+  }).index("by_username_name", ["username", "name"]),
 }); 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { isUploadReferenced } from "./lib/attachments";
+
+// Files nothing refers to are kept this long, enough for an upload to be sent
+const UNREFERENCED_GRACE_MS = 24 * 60 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+// Delete uploads that were never attached to a message or avatar, such as
+// files a send rejected or a closed tab left behind. Run by crons.ts.
+export const purgeUnreferenced = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.system
+      .query("_storage")
+      .withIndex("by_creation_time", (q) => q.lt("_creationTime", Date.now() - UNREFERENCED_GRACE_MS))
+      .paginate({ cursor: args.cursor ?? null, numItems: SWEEP_BATCH_SIZE });
+
+    for (const file of result.page) {
+      if (!(await isUploadReferenced(ctx, file._id))) await ctx.storage.delete(file._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.uploads.purgeUnreferenced, { cursor: result.continueCursor });
+    }
+  },
+});
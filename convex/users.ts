@@ -1,146 +1,174 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { deleteUnreferencedUpload, isUploadReferenced, validateUpload } from "./lib/attachments";
+import { getCurrentUser, requireUser, usernameFromIdentity } from "./lib/auth";
+import { AVATAR_TYPES, MAX_AVATAR_BYTES, resolveAvatar, toPublicUser } from "./lib/avatars";
+import { canReadRoom } from "./lib/membership";
+import { isEmoji } from "./lib/reactions";
+
+const MAX_RECENT_EMOJIS = 24;
+const SEARCH_CANDIDATES = 50;
+const MAX_SEARCH_RESULTS = 8;
+
+// Create the user record for the signed-in identity
+export const store = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        lastSeen: Date.now(),
+        lastActivity: Date.now(),
+      });
+      return existing._id;
+    }
+
+    // Usernames come from claims the identity controls, so a taken name is
+    // never handed over, not even one held by an account from before auth
+    // that has no identity yet. Pick a free variant instead.
+    const base = usernameFromIdentity(identity);
+    let username = base;
+    for (let suffix = 2; ; suffix++) {
+      const taken = await ctx.db
+        .query("users")
+        .withIndex("by_username", (q) => q.eq("username", username))
+        .first();
+      if (!taken) break;
+      username = `${base}${suffix}`;
+    }
+
+    return await ctx.db.insert("users", {
+      tokenIdentifier: identity.tokenIdentifier,
+      username,
+      color: "#000000",
+      status: "",
+      avatar: identity.pictureUrl,
+      preferences: {},
+      lastSeen: Date.now(),
+      isOnline: false,
+      presence: "offline",
+      lastActivity: Date.now(),
+    });
+  },
+});
+
+// Get the signed-in user, with the preferences only they get to see
+export const me = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    return user ? { ...(await toPublicUser(ctx, user)), preferences: user.preferences } : null;
+  },
+});
 
 // Get user preferences
 export const getPreferences = query({
-  args: { username: v.string() },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_username", (q) => q.eq("username", args.username))
-      .first();
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
     return user?.preferences;
   },
 });
 
-// Update user preferences
+// Update user preferences; fields left out keep their current value
 export const updatePreferences = mutation({
   args: {
-    username: v.string(),
     preferences: v.object({
       theme: v.optional(v.string()),
       notifications: v.optional(v.boolean()),
       sound: v.optional(v.boolean()),
+      skinTone: v.optional(v.number()),
+      quietHours: v.optional(v.object({
+        enabled: v.boolean(),
+        start: v.number(),
+        end: v.number(),
+      })),
     }),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
-
-    if (user) {
-      await ctx.db.patch(user._id, {
-        preferences: args.preferences,
-        lastSeen: Date.now(),
-        lastActivity: Date.now(),
-      });
-    } else {
-      await ctx.db.insert("users", {
-        username: args.username,
-        color: "#000000",
-        status: "",
-        preferences: args.preferences,
-        lastSeen: Date.now(),
-        isOnline: true,
-        lastActivity: Date.now(),
-      });
+    const user = await requireUser(ctx);
+    const { skinTone, quietHours } = args.preferences;
+    if (skinTone !== undefined && !(Number.isInteger(skinTone) && skinTone >= 0 && skinTone <= 5)) {
+      throw new Error("Skin tone must be between 0 and 5");
+    }
+    const isMinuteOfDay = (minutes: number) => Number.isInteger(minutes) && minutes >= 0 && minutes < 24 * 60;
+    if (quietHours && !(isMinuteOfDay(quietHours.start) && isMinuteOfDay(quietHours.end))) {
+      throw new Error("Quiet hours must be times of day");
     }
+    await ctx.db.patch(user._id, {
+      preferences: { ...user.preferences, ...args.preferences },
+      lastSeen: Date.now(),
+      lastActivity: Date.now(),
+    });
+  },
+});
+
+// Move an emoji to the front of the user's recently used list
+export const recordEmojiUse = mutation({
+  args: {
+    emoji: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    if (!isEmoji(args.emoji)) throw new Error("Not an emoji");
+    const recent = (user.preferences.recentEmojis ?? []).filter((emoji) => emoji !== args.emoji);
+    await ctx.db.patch(user._id, {
+      preferences: {
+        ...user.preferences,
+        recentEmojis: [args.emoji, ...recent].slice(0, MAX_RECENT_EMOJIS),
+      },
+    });
   },
 });
 
 // Update user status
 export const updateStatus = mutation({
   args: {
-    username: v.string(),
     status: v.string(),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
-
-    if (user) {
-      await ctx.db.patch(user._id, {
-        status: args.status,
-        lastSeen: Date.now(),
-        lastActivity: Date.now(),
-      });
-
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: "status_change",
-        timestamp: Date.now(),
-        details: args.status,
-      });
-    } else {
-      await ctx.db.insert("users", {
-        username: args.username,
-        color: "#000000",
-        status: args.status,
-        preferences: {},
-        lastSeen: Date.now(),
-        isOnline: true,
-        lastActivity: Date.now(),
-      });
+    const user = await requireUser(ctx);
+    await ctx.db.patch(user._id, {
+      status: args.status,
+      lastSeen: Date.now(),
+      lastActivity: Date.now(),
+    });
 
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: "status_change",
-        timestamp: Date.now(),
-        details: args.status,
-      });
-    }
+    // Log activity
+    await ctx.db.insert("userActivity", {
+      username: user.username,
+      type: "status_change",
+      timestamp: Date.now(),
+      details: args.status,
+    });
   },
 });
 
 // Update user appearance
 export const updateAppearance = mutation({
   args: {
-    username: v.string(),
     color: v.string(),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
-
-    if (user) {
-      await ctx.db.patch(user._id, {
-        color: args.color,
-        lastActivity: Date.now(),
-      });
+    const user = await requireUser(ctx);
+    await ctx.db.patch(user._id, {
+      color: args.color,
+      lastActivity: Date.now(),
+    });
 
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: "color_change",
-        timestamp: Date.now(),
-        details: args.color,
-      });
-    } else {
-      await ctx.db.insert("users", {
-        username: args.username,
-        color: args.color,
-        status: "",
-        preferences: {},
-        lastSeen: Date.now(),
-        isOnline: true,
-        lastActivity: Date.now(),
-      });
-
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: "color_change",
-        timestamp: Date.now(),
-        details: args.color,
-      });
-    }
+    // Log activity
+    await ctx.db.insert("userActivity", {
+      username: user.username,
+      type: "color_change",
+      timestamp: Date.now(),
+      details: args.color,
+    });
   },
 });
 
@@ -150,50 +178,56 @@ export const getUser = query({
     username: v.string(),
   },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const user = await ctx.db
       .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
+      .withIndex("by_username", (q) => q.eq("username", args.username))
       .first();
+    return user ? await toPublicUser(ctx, user) : null;
   },
 });
 
-export const checkUsername = query({
+// Users whose name starts with `prefix`, for @mention autocomplete. Given a
+// room, only people who can read it are suggested.
+export const search = query({
   args: {
-    username: v.string(),
+    prefix: v.string(),
+    roomId: v.optional(v.id("rooms")),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+    const prefix = args.prefix.trim();
+    const candidates = await ctx.db
       .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
+      .withIndex("by_username", (q) => q.gte("username", prefix).lt("username", `${prefix}\uffff`))
+      .take(SEARCH_CANDIDATES);
 
-    return {
-      isTaken: !!user,
-    };
+    const results = [];
+    for (const candidate of candidates) {
+      if (candidate.username === user.username) continue;
+      if (args.roomId && !(await canReadRoom(ctx, args.roomId, candidate.username))) continue;
+      const { avatar, avatarUrls } = await resolveAvatar(ctx, candidate);
+      results.push({ username: candidate.username, color: candidate.color, avatar: avatarUrls?.small ?? avatar });
+      if (results.length === MAX_SEARCH_RESULTS) break;
+    }
+    return results;
   },
 });
 
 export const saveAccount = mutation({
   args: {
     deviceId: v.string(),
-    username: v.string(),
-    color: v.string(),
-    status: v.string(),
-    avatar: v.optional(v.string()),
-    preferences: v.object({
-      theme: v.optional(v.string()),
-      notifications: v.optional(v.boolean()),
-      sound: v.optional(v.boolean()),
-    }),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
     // Check if account already exists for this device
     const existingAccount = await ctx.db
       .query("savedAccounts")
-      .filter((q) => 
+      .filter((q) =>
         q.and(
           q.eq(q.field("deviceId"), args.deviceId),
-          q.eq(q.field("username"), args.username)
+          q.eq(q.field("username"), user.username)
         )
       )
       .first();
@@ -201,10 +235,10 @@ export const saveAccount = mutation({
     if (existingAccount) {
       // Update existing account
       await ctx.db.patch(existingAccount._id, {
-        color: args.color,
-        status: args.status,
-        avatar: args.avatar,
-        preferences: args.preferences,
+        color: user.color,
+        status: user.status,
+        avatar: undefined,
+        preferences: user.preferences,
         lastUsed: Date.now(),
       });
     } else {
@@ -216,7 +250,7 @@ export const saveAccount = mutation({
 
       if (accounts.length >= 3) {
         // Remove oldest account
-        const oldestAccount = accounts.reduce((oldest, current) => 
+        const oldestAccount = accounts.reduce((oldest, current) =>
           current.lastUsed < oldest.lastUsed ? current : oldest
         );
         await ctx.db.delete(oldestAccount._id);
@@ -225,42 +259,12 @@ export const saveAccount = mutation({
       // Create new account
       await ctx.db.insert("savedAccounts", {
         deviceId: args.deviceId,
-        username: args.username,
-        color: args.color,
-        status: args.status,
-        avatar: args.avatar,
-        preferences: args.preferences,
+        username: user.username,
+        color: user.color,
+        status: user.status,
+        preferences: user.preferences,
         lastUsed: Date.now(),
       });
-
-      // Create or update user record
-      const user = await ctx.db
-        .query("users")
-        .filter((q) => q.eq(q.field("username"), args.username))
-        .first();
-
-      if (user) {
-        await ctx.db.patch(user._id, {
-          color: args.color,
-          status: args.status,
-          avatar: args.avatar,
-          preferences: args.preferences,
-          lastSeen: Date.now(),
-          isOnline: true,
-          lastActivity: Date.now(),
-        });
-      } else {
-        await ctx.db.insert("users", {
-          username: args.username,
-          color: args.color,
-          status: args.status,
-          avatar: args.avatar,
-          preferences: args.preferences,
-          lastSeen: Date.now(),
-          isOnline: true,
-          lastActivity: Date.now(),
-        });
-      }
     }
   },
 });
@@ -275,7 +279,18 @@ export const getSavedAccounts = query({
       .filter((q) => q.eq(q.field("deviceId"), args.deviceId))
       .order("desc")
       .take(3);
-    return accounts;
+
+    // Avatars live on the user record; resolve them to URLs
+    return await Promise.all(
+      accounts.map(async (account) => {
+        const user = await ctx.db
+          .query("users")
+          .withIndex("by_username", (q) => q.eq("username", account.username))
+          .first();
+        const { avatar } = user ? await resolveAvatar(ctx, user) : { avatar: null };
+        return { ...account, avatar };
+      })
+    );
   },
 });
 
@@ -296,76 +311,67 @@ export const getAccountCount = query({
   },
 });
 
-export const updatePresence = mutation({
-  args: {
-    username: v.string(),
-    isOnline: v.boolean(),
-  },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
-
-    if (user) {
-      await ctx.db.patch(user._id, {
-        isOnline: args.isOnline,
-        lastSeen: Date.now(),
-        lastActivity: Date.now(),
-      });
-
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: args.isOnline ? "login" : "logout",
-        timestamp: Date.now(),
-      });
-    }
+export const generateAvatarUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx);
+    return await ctx.storage.generateUploadUrl();
   },
 });
 
+// Replace the avatar with freshly uploaded files, one per size
 export const updateAvatar = mutation({
   args: {
-    username: v.string(),
-    avatar: v.string(),
+    small: v.id("_storage"),
+    medium: v.id("_storage"),
+    large: v.id("_storage"),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
-      .first();
-
-    if (user) {
-      await ctx.db.patch(user._id, {
-        avatar: args.avatar,
-        lastActivity: Date.now(),
-      });
+    const user = await requireUser(ctx);
+    for (const storageId of Array.from(new Set([args.small, args.medium, args.large]))) {
+      if (await isUploadReferenced(ctx, storageId)) throw new Error("This file is already in use");
+      await validateUpload(ctx, storageId, MAX_AVATAR_BYTES, AVATAR_TYPES);
+    }
 
-      // Log activity
-      await ctx.db.insert("userActivity", {
-        username: args.username,
-        type: "avatar_change",
-        timestamp: Date.now(),
-      });
+    await ctx.db.patch(user._id, {
+      avatar: undefined,
+      avatarStorageIds: { small: args.small, medium: args.medium, large: args.large },
+      lastActivity: Date.now(),
+    });
+    if (user.avatarStorageIds) {
+      // Migrated avatars reuse one file for every size
+      for (const storageId of Array.from(new Set(Object.values(user.avatarStorageIds)))) {
+        await deleteUnreferencedUpload(ctx, storageId);
+      }
     }
+
+    // Log activity
+    await ctx.db.insert("userActivity", {
+      username: user.username,
+      type: "avatar_change",
+      timestamp: Date.now(),
+    });
   },
 });
 
 export const getActivityHistory = query({
   args: {
-    username: v.string(),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
     const activities = await ctx.db
       .query("userActivity")
-      .filter((q) => q.eq(q.field("username"), args.username))
+      .withIndex("by_username", (q) => q.eq("username", user.username))
       .order("desc")
       .take(args.limit || 50);
     return activities.reverse();
   },
 });
 
+// Users with at least one open tab, whether active or away
 export const getOnlineUsers = query({
   args: {},
   handler: async (ctx) => {
@@ -373,6 +379,6 @@ export const getOnlineUsers = query({
       .query("users")
       .filter((q) => q.eq(q.field("isOnline"), true))
       .collect();
-    return onlineUsers;
+    return await Promise.all(onlineUsers.map((user) => toPublicUser(ctx, user)));
   },
-}); 
\ No newline at end of file
+});
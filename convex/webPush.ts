@@ -0,0 +1,63 @@
+"use node";
+
+import webpush from "web-push";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { isQuietTime, minutesIntoDay } from "./lib/quietHours";
+
+// Push services drop notifications that could not be delivered within this time
+const PUSH_TTL_SECONDS = 60 * 60;
+
+// Send VAPID-signed, encrypted Web Push messages for a new message to the
+// given users' browsers. Queued by lib/push.schedulePushNotifications.
+export const send = internalAction({
+  args: { messageId: v.id("messages"), usernames: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) return;
+    const vapidDetails = {
+      subject: process.env.VAPID_SUBJECT ?? "mailto:admin@example.com",
+      publicKey,
+      privateKey,
+    };
+
+    const targets = await ctx.runQuery(internal.push.deliveryTargets, args);
+    const expired: string[] = [];
+    const now = new Date();
+    await Promise.all(
+      targets.flatMap(({ quietHours, notification, subscriptions }) =>
+        subscriptions
+          // Quiet hours follow the clock of the browser being notified
+          .filter((subscription) => !isQuietTime(quietHours, minutesIntoDay(now, subscription.timeZone)))
+          .map(async ({ endpoint, p256dh, auth }) => {
+            // web-push only speaks https, so it prepares the request and fetch
+            // sends it; that also reaches the http dev stand-in
+            const request = webpush.generateRequestDetails(
+              { endpoint, keys: { p256dh, auth } },
+              JSON.stringify(notification),
+              { vapidDetails, TTL: PUSH_TTL_SECONDS, urgency: "high" }
+            );
+            try {
+              const response = await fetch(request.endpoint, {
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
+                // Never follow a push service anywhere else
+                redirect: "error",
+              });
+              if (response.status === 404 || response.status === 410) {
+                expired.push(endpoint);
+              } else if (!response.ok) {
+                console.error(`Push to ${new URL(endpoint).host} failed with ${response.status}:`, await response.text());
+              }
+            } catch (error) {
+              console.error(`Push to ${new URL(endpoint).host} failed:`, error);
+            }
+          })
+      )
+    );
+    if (expired.length > 0) await ctx.runMutation(internal.push.removeSubscriptions, { endpoints: expired });
+  },
+});
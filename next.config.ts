@@ -1,7 +1,21 @@
 import type { NextConfig } from "next";
 
+// Uploaded files are served by the Convex deployment's storage
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL ? new URL(process.env.NEXT_PUBLIC_CONVEX_URL) : null;
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: convexUrl
+      ? [
+          {
+            protocol: convexUrl.protocol === "http:" ? "http" : "https",
+            hostname: convexUrl.hostname,
+            port: convexUrl.port,
+            pathname: "/api/storage/**",
+          },
+        ]
+      : [],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,26 @@
+// Service worker for Web Push. Shows the notifications sent by
+// convex/webPush.ts and opens the conversation when one is clicked.
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || "New message", {
+      body: data.body,
+      // One notification per conversation; a newer message replaces the last
+      tag: data.tag,
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (!open) return self.clients.openWindow(url);
+      return open.navigate(url).then((client) => (client || open).focus());
+    })
+  );
+});
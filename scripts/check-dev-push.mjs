@@ -0,0 +1,81 @@
+// Send Web Push messages to the local stand-in push service in
+// src/app/api/dev-push exactly the way convex/webPush.ts does, and check that
+// each one arrives signed, decrypted and intact. Needs the Next.js dev server:
+//   npm run dev
+//   npm run check:push                     # or DEV_PUSH_URL=http://host:port npm run check:push
+// Uses VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY when set, otherwise fresh keys.
+
+import webpush from "web-push";
+
+const baseUrl = process.env.DEV_PUSH_URL ?? "http://localhost:3000";
+const keys =
+  process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY
+    ? { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY }
+    : webpush.generateVAPIDKeys();
+const subject = "mailto:check@example.com";
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+async function request(path, init) {
+  const response = await fetch(`${baseUrl}/api/dev-push${path}`, init);
+  if (response.status === 404) throw new Error(`${baseUrl} does not serve the dev push stand-in`);
+  return response;
+}
+
+async function received() {
+  const response = await request("", { method: "GET" });
+  return (await response.json()).received;
+}
+
+async function send(subscription, notification, vapidKeys) {
+  const details = webpush.generateRequestDetails(
+    { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+    JSON.stringify(notification),
+    { vapidDetails: { subject, ...vapidKeys }, TTL: 3600, urgency: "high" }
+  );
+  const response = await fetch(details.endpoint, {
+    method: details.method,
+    headers: details.headers,
+    body: details.body,
+    redirect: "error",
+  });
+  return response.status;
+}
+
+async function main() {
+  const subscription = await (await request("/subscription", { method: "GET" })).json();
+  assert(subscription.endpoint === `${baseUrl}/api/dev-push`, `Unexpected endpoint ${subscription.endpoint}`);
+  await request("", { method: "DELETE" });
+
+  // A push like the ones convex/push.ts deliveryTargets builds
+  const notification = {
+    title: "alice mentioned you in #general",
+    body: "Hey @bob, look at this 👀",
+    tag: "room",
+    url: "/?room=room&message=message",
+  };
+  const status = await send(subscription, notification, keys);
+  assert(status === 201, `Push was answered with ${status}`);
+
+  const [push, ...rest] = await received();
+  assert(push && rest.length === 0, "The stand-in did not record exactly one push");
+  assert(JSON.stringify(push.payload) === JSON.stringify(notification), "The payload did not decrypt to what was sent");
+  assert(push.vapidSubject === subject, `VAPID subject was ${push.vapidSubject}`);
+  assert(push.ttl === 3600 && push.urgency === "high", "TTL or urgency headers were lost");
+
+  // Signed with one key but claiming another: must be refused
+  const other = webpush.generateVAPIDKeys();
+  const forged = await send(subscription, notification, { publicKey: other.publicKey, privateKey: keys.privateKey });
+  assert(forged === 400, `A push with a mismatched VAPID key was answered with ${forged}`);
+  assert((await received()).length === 1, "The forged push was recorded");
+
+  await request("", { method: "DELETE" });
+  console.log("Dev push stand-in: delivery, decryption and VAPID checks passed");
+}
+
+main().catch((error) => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
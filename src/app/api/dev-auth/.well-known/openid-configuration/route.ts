@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { devAuthIssuer, isDevAuthEnabled } from "@/lib/dev-auth";
+
+// OIDC discovery document Convex reads to find the dev signing keys
+export async function GET(request: Request) {
+  if (!isDevAuthEnabled()) return new NextResponse(null, { status: 404 });
+
+  const issuer = devAuthIssuer(request);
+  return NextResponse.json({
+    issuer,
+    jwks_uri: `${issuer}/jwks`,
+    id_token_signing_alg_values_supported: ["RS256"],
+    response_types_supported: ["id_token"],
+    subject_types_supported: ["public"],
+  });
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { getJwks, isDevAuthEnabled } from "@/lib/dev-auth";
+
+export async function GET() {
+  if (!isDevAuthEnabled()) return new NextResponse(null, { status: 404 });
+  return NextResponse.json(getJwks());
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { devAuthIssuer, isDevAuthEnabled, signDevToken } from "@/lib/dev-auth";
+
+// Issue a dev identity token for the requested username
+export async function POST(request: Request) {
+  if (!isDevAuthEnabled()) return new NextResponse(null, { status: 404 });
+
+  const body = await request.json().catch(() => null);
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  if (!username || username.length > 32) {
+    return NextResponse.json({ error: "A username of 1-32 characters is required" }, { status: 400 });
+  }
+
+  return NextResponse.json({ token: signDevToken(devAuthIssuer(request), username) });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { clearReceivedPushes, isDevPushEnabled, receivedPushes, receivePush } from "@/lib/dev-push";
+
+// Accept a push the way a push service would
+export async function POST(request: Request) {
+  if (!isDevPushEnabled()) return new NextResponse(null, { status: 404 });
+  try {
+    receivePush(request, Buffer.from(await request.arrayBuffer()));
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid push" }, { status: 400 });
+  }
+  return new NextResponse(null, { status: 201 });
+}
+
+// Pushes received so far, oldest first
+export async function GET() {
+  if (!isDevPushEnabled()) return new NextResponse(null, { status: 404 });
+  return NextResponse.json({ received: receivedPushes() });
+}
+
+export async function DELETE() {
+  if (!isDevPushEnabled()) return new NextResponse(null, { status: 404 });
+  clearReceivedPushes();
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { devPushSubscription, isDevPushEnabled } from "@/lib/dev-push";
+
+// A subscription pointing at the stand-in, to register with push:addSubscription
+export async function GET(request: Request) {
+  if (!isDevPushEnabled()) return new NextResponse(null, { status: 404 });
+  return NextResponse.json(devPushSubscription(request));
+}
@@ -1,7 +1,9 @@
 "use client";
 
-import React, { useState, useEffect, useMemo } from "react";
-import { useMutation, useQuery } from "convex/react";
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { ConvexError } from "convex/values";
+import { useConvexAuth, useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import NextImage from "next/image";
 import { api } from "../../convex/_generated/api";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -11,14 +13,39 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { useAuthActions } from "@/components/providers";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
+import { diffWords } from "@/lib/diff";
+import { loadShortcodes, matchShortcodes, withSkinTone, type EmojiShortcode } from "@/lib/emoji";
 import { useTheme } from "next-themes";
-import { Search, MoreVertical, Smile, Check, CheckCheck, Loader2 } from "lucide-react";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Search, MoreVertical, Smile, Check, CheckCheck, Loader2, Hash, Lock, Plus, Users, MessageSquare, Paperclip, FileText, X, Eye, EyeOff, Pin, Clock, Forward, Quote, AtSign, Bell, BellOff, AlertCircle } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Markdown } from "@/components/markdown";
+import { EmojiPicker } from "@/components/emoji-picker";
+import { ComposerSuggestions } from "@/components/composer-suggestions";
+import { useMessageNotifications, usePushSubscription } from "@/components/use-notifications";
+import { useOutbox } from "@/components/use-outbox";
+import { usePresence } from "@/components/use-presence";
+import { useTypingIndicator } from "@/components/use-typing";
 import { useInView } from "react-intersection-observer";
 import { Id } from "../../convex/_generated/dataModel";
+import { parseSearchQuery } from "../../convex/lib/search";
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, isImageType } from "../../convex/lib/attachments";
+import { AVATAR_SIZES, MAX_AVATAR_BYTES } from "../../convex/lib/avatars";
+import type { SpamErrorData } from "../../convex/lib/rateLimit";
+import type { QuietHours } from "../../convex/lib/quietHours";
 
 // Generate a unique device ID
 function getDeviceId(): string | null {
@@ -36,70 +63,142 @@ interface UserPreferences {
   theme?: string;
   notifications?: boolean;
   sound?: boolean;
+  skinTone?: number;
+  recentEmojis?: string[];
+  quietHours?: QuietHours;
 }
 
 interface SavedAccount {
   username: string;
   color: string;
   status: string;
-  avatar?: string;
+  avatar?: string | null;
   preferences: UserPreferences;
 }
 
-async function compressImage(file: File, maxSizeMB: number = 1): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-        
-        // Calculate new dimensions while maintaining aspect ratio
-        const MAX_WIDTH = 800;
-        const MAX_HEIGHT = 800;
-        if (width > height) {
-          if (width > MAX_WIDTH) {
-            height = Math.round((height * MAX_WIDTH) / width);
-            width = MAX_WIDTH;
-          }
-        } else {
-          if (height > MAX_HEIGHT) {
-            width = Math.round((width * MAX_HEIGHT) / height);
-            height = MAX_HEIGHT;
-          }
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, width, height);
-        
-        // Start with high quality
-        let quality = 0.9;
-        let compressedDataUrl = canvas.toDataURL('image/jpeg', quality);
-        
-        // Reduce quality until size is under maxSizeMB
-        while (compressedDataUrl.length > maxSizeMB * 1024 * 1024 && quality > 0.1) {
-          quality -= 0.1;
-          compressedDataUrl = canvas.toDataURL('image/jpeg', quality);
-        }
-        
-        resolve(compressedDataUrl);
-      };
-      img.onerror = reject;
+// Center-crop an image to a square JPEG of the given size for avatars
+async function resizeAvatar(file: File, size: number): Promise<Blob> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const side = Math.min(img.width, img.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')?.drawImage(
+      img,
+      (img.width - side) / 2,
+      (img.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      size,
+      size
+    );
+
+    // Reduce quality until the file fits the server-side limit
+    let quality = 0.9;
+    let blob: Blob | null = null;
+    do {
+      blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+      quality -= 0.1;
+    } while (blob && blob.size > MAX_AVATAR_BYTES && quality > 0.1);
+    if (!blob) throw new Error("Could not resize avatar");
+    return blob;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Downscale an image into a small JPEG used as the inline preview
+async function createThumbnail(file: File, maxDimension: number = 320): Promise<Blob> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not create thumbnail"))), 'image/jpeg', 0.8);
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Toast for a failed mutation. Throttling and spam rejections carry a message
+// meant for the user; anything else falls back to a generic description.
+function errorToast(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    const data = error.data as SpamErrorData;
+    return {
+      title: data.code === "RATE_LIMITED" ? "Slow down" : "Message not sent",
+      description: data.message,
+      variant: "destructive" as const,
     };
-    reader.onerror = reject;
-  });
+  }
+  return { title: "Error", description: fallback, variant: "destructive" as const };
 }
 
+// Quick picks shown before the full emoji picker
 const REACTION_EMOJIS = ["👍", "😂", "❤️", "😮", "😢", "😡"];
 
+// Collapse a message's reactions into one chip per emoji, in the order each
+// emoji was first used
+function groupReactions(reactions: Message["reactions"]) {
+  const groups = new Map<string, string[]>();
+  for (const { emoji, user } of reactions ?? []) {
+    const users = groups.get(emoji) ?? [];
+    if (!users.includes(user)) users.push(user);
+    groups.set(emoji, users);
+  }
+  return Array.from(groups, ([emoji, users]) => ({ emoji, users }));
+}
+
+// `:sm` right before the caret, at the start of the text or after whitespace
+const SHORTCODE_TRIGGER = /(?:^|\s):([a-z0-9_+-]{2,})$/i;
+// `@na` right before the caret, not inside an email address
+const MENTION_TRIGGER = /(?:^|[^\w@])@([\w.-]*)$/;
+
+const MESSAGE_PAGE_SIZE = 30;
+// Messages seen within this window advance the read cursor in one call
+const READ_FLUSH_MS = 1000;
+// How long a message linked to stays highlighted
+const HIGHLIGHT_MS = 2000;
+const CONVEX_ID_PATTERN = /^[0-9a-z]{16,40}$/;
+const SEARCH_PAGE_SIZE = 20;
+const MENTIONS_PAGE_SIZE = 20;
+
+// A quoted or forwarded source message as embedded in another message
+interface MessagePreview {
+  _id: Id<"messages">;
+  roomId: Id<"rooms">;
+  username: string;
+  timestamp: number;
+  deleted: boolean;
+  text: string;
+  attachmentName?: string;
+}
+
 interface Message {
   _id: Id<"messages">;
+  roomId?: Id<"rooms">;
   text: string;
   username: string;
   timestamp: number;
@@ -111,18 +210,41 @@ interface Message {
     user: string;
     emoji: string;
   }>;
+  parentId?: Id<"messages">;
+  attachment?: {
+    name: string;
+    contentType: string;
+    size: number;
+  };
+  attachmentUrl?: string | null;
+  thumbnailUrl?: string | null;
+  replyCount?: number;
+  lastReplyAt?: number;
+  lastReplyBy?: string;
+  pinnedAt?: number;
+  pinnedBy?: string;
+  mentions?: string[];
+  quotedMessageId?: Id<"messages">;
+  forwardedFrom?: Id<"messages">;
+  quoted?: MessagePreview | null;
+  forwarded?: MessagePreview | null;
+}
+
+interface ForwardTarget {
+  id: Id<"rooms">;
+  label: string;
 }
 
 interface UserInfo {
   _id: Id<"users">;
   _creationTime: number;
-  avatar?: string;
+  avatar?: string | null;
   username: string;
   color: string;
   status: string;
-  preferences: UserPreferences;
   lastSeen?: number;
   isOnline?: boolean;
+  presence?: "online" | "away" | "offline";
   lastActivity?: number;
 }
 
@@ -134,13 +256,449 @@ interface ChatMessageProps {
   setEditingId: (id: Id<"messages"> | null) => void;
   setEditingText: (text: string) => void;
   handleEdit: (id: Id<"messages">, text: string) => void;
-  handleDelete: (id: Id<"messages">) => void;
+  handleDelete: (id: Id<"messages">, isOwn: boolean) => void;
   handleReact: (id: Id<"messages">, emoji: string) => void;
+  handlePin: (id: Id<"messages">, pinned: boolean) => void;
   reactionPopoverId: Id<"messages"> | null;
   setReactionPopoverId: (id: Id<"messages"> | null) => void;
   userInfo: UserInfo | null | undefined;
   username: string;
-  markRead: (params: { messageId: Id<"messages">; username: string }) => void;
+  canModerate: boolean;
+  onSeen?: (timestamp: number) => void;
+  onOpenThread?: (id: Id<"messages">) => void;
+  onQuote?: (msg: Message) => void;
+  forwardTargets: ForwardTarget[];
+  handleForward: (id: Id<"messages">, roomId: Id<"rooms">) => void;
+  onOpenReference: (preview: MessagePreview) => void;
+  isHighlighted: boolean;
+}
+
+type RoomRole = "owner" | "moderator" | "member";
+
+interface Room {
+  _id: Id<"rooms">;
+  name: string;
+  topic?: string;
+  visibility: "public" | "private";
+  role: RoomRole | null;
+  kind?: "direct";
+  participants?: string[] | null;
+  unreadCount?: number;
+  muted?: boolean;
+}
+
+interface DirectConversation {
+  _id: Id<"rooms">;
+  participants: string[];
+  unreadCount: number;
+  muted: boolean;
+}
+
+// Channels show as #name, direct messages by their other participants
+function roomLabel(room: Pick<Room, "name" | "kind" | "participants">): string {
+  if (room.kind === "direct") return room.participants?.join(", ") || "Just you";
+  return `#${room.name}`;
+}
+
+function formatUnread(count: number): string {
+  return count > 99 ? "99+" : String(count);
+}
+
+// Green while any of the user's tabs is in use, yellow while all are hidden or idle
+function PresenceDot({ presence }: { presence: UserInfo["presence"] }) {
+  if (presence !== "online" && presence !== "away") return null;
+  return (
+    <span
+      className={cn(
+        "absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full ring-2 ring-white dark:ring-zinc-900",
+        presence === "online" ? "bg-green-500" : "bg-yellow-400"
+      )}
+      title={presence === "online" ? "Online" : "Away"}
+    />
+  );
+}
+
+interface RoomSidebarProps {
+  rooms: Room[] | undefined;
+  directMessages: DirectConversation[] | undefined;
+  activeRoomId: Id<"rooms"> | null;
+  onSelectRoom: (id: Id<"rooms">) => void;
+  onCreateRoom: (name: string, visibility: "public" | "private") => Promise<void>;
+  onOpenDirectMessage: (usernames: string[]) => Promise<void>;
+  isOpen: boolean;
+}
+
+function RoomSidebar({
+  rooms,
+  directMessages,
+  activeRoomId,
+  onSelectRoom,
+  onCreateRoom,
+  onOpenDirectMessage,
+  isOpen,
+}: RoomSidebarProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newRoomName, setNewRoomName] = useState("");
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [isStartingDm, setIsStartingDm] = useState(false);
+  const [dmRecipients, setDmRecipients] = useState("");
+
+  const handleStartDm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const usernames = dmRecipients.split(",").map((name) => name.trim()).filter(Boolean);
+    if (!usernames.length) return;
+    await onOpenDirectMessage(usernames);
+    setDmRecipients("");
+    setIsStartingDm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRoomName.trim()) return;
+    await onCreateRoom(newRoomName, isPrivate ? "private" : "public");
+    setNewRoomName("");
+    setIsPrivate(false);
+    setIsCreating(false);
+  };
+
+  return (
+    <aside className={cn(
+      "flex-col w-64 shrink-0 bg-white/90 dark:bg-zinc-900/90 border-r border-blue-200 dark:border-zinc-800",
+      "fixed sm:static inset-y-0 left-0 z-20 sm:z-auto sm:flex",
+      isOpen ? "flex" : "hidden"
+    )}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-blue-200 dark:border-zinc-800">
+        <span className="font-semibold text-blue-900 dark:text-zinc-100">Rooms</span>
+        <Button variant="ghost" size="icon" onClick={() => setIsCreating((v) => !v)} aria-label="New room">
+          <Plus className="w-4 h-4 text-blue-500 dark:text-zinc-200" />
+        </Button>
+      </div>
+      {isCreating && (
+        <form onSubmit={handleSubmit} className="px-4 py-3 space-y-2 border-b border-blue-100 dark:border-zinc-800">
+          <Input
+            value={newRoomName}
+            onChange={(e) => setNewRoomName(e.target.value)}
+            placeholder="new-room"
+            autoFocus
+          />
+          <div className="flex items-center space-x-2">
+            <Switch checked={isPrivate} onCheckedChange={setIsPrivate} />
+            <Label>Private</Label>
+          </div>
+          <Button type="submit" size="sm" className="w-full">Create</Button>
+        </form>
+      )}
+      <nav className="flex-1 overflow-y-auto py-2">
+        {rooms?.map((room) => (
+          <button
+            key={room._id}
+            type="button"
+            onClick={() => onSelectRoom(room._id)}
+            className={cn(
+              "w-full flex items-center gap-2 px-4 py-2 text-sm text-left transition-colors",
+              room._id === activeRoomId
+                ? "bg-blue-100 text-blue-900 dark:bg-zinc-800 dark:text-zinc-100 font-medium"
+                : "text-blue-700 hover:bg-blue-50 dark:text-zinc-300 dark:hover:bg-zinc-800/60",
+              !!room.unreadCount && "font-semibold"
+            )}
+          >
+            {room.visibility === "private" ? <Lock className="w-4 h-4" /> : <Hash className="w-4 h-4" />}
+            <span className="truncate">{room.name}</span>
+            {room.muted && <BellOff className="w-3 h-3 shrink-0 opacity-60" aria-label="Muted" />}
+            {!room.role && <span className="ml-auto text-[10px] text-blue-300 dark:text-zinc-500">join</span>}
+            {!!room.unreadCount && (
+              <span className="ml-auto rounded-full bg-blue-500 px-1.5 text-[10px] text-white">{formatUnread(room.unreadCount)}</span>
+            )}
+          </button>
+        ))}
+        <div className="flex items-center justify-between px-4 pt-4 pb-1">
+          <span className="text-xs font-semibold uppercase tracking-wide text-blue-400 dark:text-zinc-500">Direct messages</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsStartingDm((v) => !v)} aria-label="New direct message">
+            <Plus className="w-4 h-4 text-blue-500 dark:text-zinc-200" />
+          </Button>
+        </div>
+        {isStartingDm && (
+          <form onSubmit={handleStartDm} className="px-4 py-2 space-y-2">
+            <Input
+              value={dmRecipients}
+              onChange={(e) => setDmRecipients(e.target.value)}
+              placeholder="alice, bob"
+              autoFocus
+            />
+            <Button type="submit" size="sm" className="w-full">Start conversation</Button>
+          </form>
+        )}
+        {directMessages?.map((dm) => (
+          <button
+            key={dm._id}
+            type="button"
+            onClick={() => onSelectRoom(dm._id)}
+            className={cn(
+              "w-full flex items-center gap-2 px-4 py-2 text-sm text-left transition-colors",
+              dm._id === activeRoomId
+                ? "bg-blue-100 text-blue-900 dark:bg-zinc-800 dark:text-zinc-100 font-medium"
+                : "text-blue-700 hover:bg-blue-50 dark:text-zinc-300 dark:hover:bg-zinc-800/60",
+              dm.unreadCount > 0 && "font-semibold"
+            )}
+          >
+            {dm.participants.length > 1 ? <Users className="w-4 h-4 shrink-0" /> : <MessageSquare className="w-4 h-4 shrink-0" />}
+            <span className="truncate">{roomLabel({ name: "", kind: "direct", participants: dm.participants })}</span>
+            {dm.muted && <BellOff className="w-3 h-3 shrink-0 opacity-60" aria-label="Muted" />}
+            {dm.unreadCount > 0 && (
+              <span className="ml-auto rounded-full bg-blue-500 px-1.5 text-[10px] text-white">{formatUnread(dm.unreadCount)}</span>
+            )}
+          </button>
+        ))}
+      </nav>
+    </aside>
+  );
+}
+
+// Deep link to a message; opened by the Chat component on load
+function messageLink(preview: Pick<MessagePreview, "_id" | "roomId">): string {
+  return `/?room=${preview.roomId}&message=${preview._id}`;
+}
+
+interface MessageReferenceProps {
+  kind: "quote" | "forward";
+  preview: MessagePreview | null | undefined;
+  isSelf: boolean;
+  onOpen: (preview: MessagePreview) => void;
+}
+
+// Embedded preview of a quoted or forwarded message
+function MessageReference({ kind, preview, isSelf, onOpen }: MessageReferenceProps) {
+  return (
+    <div className={cn(
+      "mb-1 rounded-lg border-l-4 px-2 py-1 text-xs",
+      isSelf ? "border-blue-200 bg-blue-400/40" : "border-blue-300 bg-blue-50 dark:border-zinc-500 dark:bg-zinc-700"
+    )}>
+      <div className="flex items-center gap-1 opacity-80">
+        {kind === "forward" ? <Forward className="w-3 h-3" /> : <Quote className="w-3 h-3" />}
+        {preview ? (
+          <>
+            <span className="font-medium">{kind === "forward" ? `Forwarded from ${preview.username}` : preview.username}</span>
+            <a
+              href={messageLink(preview)}
+              onClick={(e) => {
+                e.preventDefault();
+                onOpen(preview);
+              }}
+              className="ml-auto hover:underline"
+            >
+              {new Date(preview.timestamp).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+            </a>
+          </>
+        ) : (
+          <span className="italic">Original message unavailable</span>
+        )}
+      </div>
+      {preview && (
+        preview.deleted ? (
+          <div className="italic opacity-70">Message deleted</div>
+        ) : (
+          <>
+            {preview.text && <Markdown text={preview.text} className="line-clamp-4" />}
+            {preview.attachmentName && (
+              <div className="flex items-center gap-1 opacity-80">
+                <FileText className="w-3 h-3" />
+                {preview.attachmentName}
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+// Each version of an edited message with the words changed from the version
+// before it. Mounted only while the history popover is open.
+function EditHistory({ messageId }: { messageId: Id<"messages"> }) {
+  const history = useQuery(api.messages.getMessageHistory, { messageId });
+  if (history === undefined) {
+    return <Loader2 className="w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />;
+  }
+  if (!history) return <p className="text-sm text-gray-500 dark:text-zinc-400">History unavailable</p>;
+
+  return (
+    <div className="space-y-3 max-h-80 overflow-y-auto">
+      {history.map((version, index) => (
+        <div key={version.writtenAt} className="space-y-1">
+          <div className="text-[10px] uppercase tracking-wide text-blue-400 dark:text-zinc-400">
+            {index === 0 ? "Original" : index === history.length - 1 ? "Current" : `Edit ${index}`}
+            {" · "}
+            {new Date(version.writtenAt).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+          </div>
+          <p className="whitespace-pre-wrap break-words text-sm">
+            {index === 0
+              ? version.text
+              : diffWords(history[index - 1].text, version.text).map((part, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      part.type === "added" && "bg-green-100 text-green-800 dark:bg-green-900/60 dark:text-green-200",
+                      part.type === "removed" && "bg-red-100 text-red-800 line-through dark:bg-red-900/60 dark:text-red-200"
+                    )}
+                  >
+                    {part.text}
+                  </span>
+                ))}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Quiet hours are stored as minutes after midnight; time inputs use "HH:MM"
+function toTimeInput(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function fromTimeInput(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: 22 * 60, end: 7 * 60 };
+
+// Format a timestamp for a datetime-local input, which works in local time
+function toDateTimeLocal(timestamp: number): string {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+interface SchedulePopoverProps {
+  roomId: Id<"rooms">;
+  message: string;
+  onScheduled: () => void;
+}
+
+// Composer popover for sending the current message later and managing the
+// user's pending scheduled messages in this room
+function SchedulePopover({ roomId, message, onScheduled }: SchedulePopoverProps) {
+  const { toast } = useToast();
+  const scheduled = useQuery(api.scheduledMessages.listScheduled, { roomId });
+  const scheduleMessage = useMutation(api.scheduledMessages.scheduleMessage);
+  const updateScheduled = useMutation(api.scheduledMessages.updateScheduled);
+  const cancelScheduled = useMutation(api.scheduledMessages.cancelScheduled);
+  const [isOpen, setIsOpen] = useState(false);
+  const [sendAt, setSendAt] = useState("");
+  const [editing, setEditing] = useState<{ id: Id<"scheduledMessages">; text: string; sendAt: string } | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open && !sendAt) setSendAt(toDateTimeLocal(Date.now() + 60 * 60 * 1000));
+    if (!open) setEditing(null);
+  };
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      toast(errorToast(error, error instanceof Error ? error.message : fallback));
+      return false;
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!message.trim() || !sendAt) return;
+    const ok = await run(
+      () => scheduleMessage({ roomId, text: message, sendAt: new Date(sendAt).getTime() }),
+      "Could not schedule message"
+    );
+    if (ok) {
+      toast({ title: "Message scheduled", description: new Date(sendAt).toLocaleString() });
+      onScheduled();
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const ok = await run(
+      () => updateScheduled({ scheduledId: editing.id, text: editing.text, sendAt: new Date(editing.sendAt).getTime() }),
+      "Could not update scheduled message"
+    );
+    if (ok) setEditing(null);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="relative p-2 rounded-full text-blue-500 hover:bg-blue-100 dark:text-zinc-300 dark:hover:bg-zinc-800 transition-colors"
+          aria-label="Schedule message"
+        >
+          <Clock className="w-5 h-5" />
+          {!!scheduled?.length && (
+            <span className="absolute -top-0.5 -right-0.5 rounded-full bg-blue-500 px-1 text-[10px] leading-4 text-white">{scheduled.length}</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3 z-50">
+        <div className="space-y-2">
+          <Label>Send later</Label>
+          <Input
+            type="datetime-local"
+            value={sendAt}
+            min={toDateTimeLocal(Date.now())}
+            onChange={(e) => setSendAt(e.target.value)}
+          />
+          <Button type="button" size="sm" className="w-full" disabled={!message.trim() || !sendAt} onClick={handleSchedule}>
+            {message.trim() ? "Schedule message" : "Type a message to schedule it"}
+          </Button>
+        </div>
+        {!!scheduled?.length && (
+          <div className="space-y-2 border-t border-blue-100 dark:border-zinc-700 pt-2 max-h-64 overflow-y-auto">
+            <Label>Scheduled</Label>
+            {scheduled.map((item) =>
+              editing?.id === item._id ? (
+                <div key={item._id} className="space-y-1">
+                  <Input value={editing.text} onChange={(e) => setEditing({ ...editing, text: e.target.value })} />
+                  <Input
+                    type="datetime-local"
+                    value={editing.sendAt}
+                    onChange={(e) => setEditing({ ...editing, sendAt: e.target.value })}
+                  />
+                  <div className="flex gap-1 justify-end">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+                    <Button type="button" size="sm" onClick={handleSaveEdit}>Save</Button>
+                  </div>
+                </div>
+              ) : (
+                <div key={item._id} className="text-sm">
+                  <div className="text-xs text-blue-400 dark:text-zinc-400">{new Date(item.sendAt).toLocaleString()}</div>
+                  <div className="truncate">{item.text}</div>
+                  <div className="flex gap-1 justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ id: item._id, text: item.text, sendAt: toDateTimeLocal(item.sendAt) })}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500"
+                      onClick={() => run(() => cancelScheduled({ scheduledId: item._id }), "Could not cancel scheduled message")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 function ChatMessage({ 
@@ -153,18 +711,28 @@ function ChatMessage({
   handleEdit, 
   handleDelete, 
   handleReact, 
+  handlePin,
   reactionPopoverId, 
   setReactionPopoverId, 
   userInfo, 
   username, 
-  markRead 
+  canModerate,
+  onSeen,
+  onOpenThread,
+  onQuote,
+  forwardTargets,
+  handleForward,
+  onOpenReference,
+  isHighlighted
 }: ChatMessageProps) {
   const { ref, inView } = useInView({ triggerOnce: true, threshold: 0.5 });
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const reactionGroups = useMemo(() => groupReactions(msg.reactions), [msg.reactions]);
+  // Shown optimistically until the server has it, so there is nothing to act on yet
+  const isPending = msg.delivered === false;
   React.useEffect(() => {
-    if (inView && !isSelf && !msg.readBy?.includes(username)) {
-      markRead({ messageId: msg._id, username });
-    }
-  }, [inView, isSelf, msg._id, msg.readBy, username, markRead]);
+    if (inView && !isSelf && onSeen) onSeen(msg.timestamp);
+  }, [inView, isSelf, msg.timestamp, onSeen]);
   if (msg.deleted) {
     return (
       <div className={cn("flex items-end gap-2", isSelf ? "justify-end" : "justify-start")}> 
@@ -173,43 +741,83 @@ function ChatMessage({
     );
   }
   return (
-    <div ref={ref} className={cn("flex items-end gap-2", isSelf ? "justify-end" : "justify-start")}
+    <div ref={ref} id={`message-${msg._id}`} className={cn("flex items-end gap-2", isSelf ? "justify-end" : "justify-start")}
       onMouseLeave={() => setReactionPopoverId(null)}
     >
       {!isSelf && (
         <Avatar className="w-8 h-8">
-          <AvatarImage src={userInfo?.avatar} alt={username} />
+          <AvatarImage src={userInfo?.avatar ?? undefined} alt={username} />
           <AvatarFallback>{msg.username[0]?.toUpperCase()}</AvatarFallback>
         </Avatar>
       )}
       <div className={cn(
-        "max-w-[80vw] sm:max-w-[70%] rounded-2xl px-3 sm:px-4 py-2 text-sm shadow relative group",
+        "max-w-[80vw] sm:max-w-[70%] rounded-2xl px-3 sm:px-4 py-2 text-sm shadow relative group transition-shadow",
+        isHighlighted && "ring-2 ring-yellow-400",
         isSelf
           ? "bg-blue-500 text-white rounded-br-md dark:bg-blue-600"
-          : "bg-white text-blue-900 border border-blue-100 rounded-bl-md dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700"
+          : "bg-white text-blue-900 border border-blue-100 rounded-bl-md dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700",
+        !isSelf && msg.mentions?.includes(username) && "border-l-4 border-l-yellow-400 dark:border-l-yellow-500"
       )}>
         <div className="font-medium mb-1 flex items-center gap-2">
           {!isSelf && <span className="text-xs text-blue-400 dark:text-zinc-300">{msg.username}</span>}
           <span className="text-[10px] text-blue-300 dark:text-zinc-400 ml-2">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-          {msg.edited && <span className="ml-2 text-[10px] italic text-yellow-400">edited</span>}
-          {/* 3-dot menu for own messages */}
-          {isSelf && !isEditing && (
+          {msg.edited && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" className="ml-2 text-[10px] italic text-yellow-400 hover:underline" aria-label="Show edit history">
+                  edited
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-80 z-50">
+                <EditHistory messageId={msg._id} />
+              </PopoverContent>
+            </Popover>
+          )}
+          {msg.pinnedAt && <Pin className="w-3 h-3 text-yellow-400" aria-label={`Pinned by ${msg.pinnedBy}`} />}
+          {/* 3-dot menu: anyone can quote or forward; authors and moderators manage the message */}
+          {!isEditing && !isPending && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <button className="ml-2 p-1 rounded-full hover:bg-blue-400/20 dark:hover:bg-zinc-700/40 focus:outline-none">
-                  <MoreVertical className="w-4 h-4 text-white dark:text-zinc-200" />
+                  <MoreVertical className={cn("w-4 h-4 dark:text-zinc-200", isSelf ? "text-white" : "text-blue-400")} />
                 </button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="z-50">
-                <DropdownMenuItem onClick={() => {
-                  setEditingId(msg._id);
-                  setEditingText(msg.text);
-                }}>
-                  Edit
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleDelete(msg._id)} className="text-red-500">
-                  Delete
-                </DropdownMenuItem>
+                {isSelf && (
+                  <DropdownMenuItem onClick={() => {
+                    setEditingId(msg._id);
+                    setEditingText(msg.text);
+                  }}>
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {onQuote && (
+                  <DropdownMenuItem onClick={() => onQuote(msg)}>
+                    Quote
+                  </DropdownMenuItem>
+                )}
+                {forwardTargets.length > 0 && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>Forward</DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {forwardTargets.map((target) => (
+                        <DropdownMenuItem key={target.id} onClick={() => handleForward(msg._id, target.id)}>
+                          <span className="truncate">{target.label}</span>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
+                {(isSelf || canModerate) && (
+                  <>
+                    <DropdownMenuItem onClick={() => handlePin(msg._id, !msg.pinnedAt)}>
+                      {msg.pinnedAt ? "Unpin" : "Pin"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDelete(msg._id, isSelf)} className="text-red-500">
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
@@ -232,51 +840,152 @@ function ChatMessage({
             <button type="button" className="text-gray-400 dark:text-zinc-400" onClick={() => setEditingId(null)}>Cancel</button>
           </form>
         ) : (
-          <div>{msg.text}</div>
+          <>
+            {msg.forwardedFrom && (
+              <MessageReference kind="forward" preview={msg.forwarded} isSelf={isSelf} onOpen={onOpenReference} />
+            )}
+            {msg.quotedMessageId && (
+              <MessageReference kind="quote" preview={msg.quoted} isSelf={isSelf} onOpen={onOpenReference} />
+            )}
+            {msg.text && <Markdown text={msg.text} mentions={msg.mentions} self={username} />}
+          </>
+        )}
+        {/* Attachment preview */}
+        {msg.attachment && msg.attachmentUrl && (
+          isImageType(msg.attachment.contentType) ? (
+            <a href={msg.attachmentUrl} target="_blank" rel="noopener noreferrer" className="block mt-1">
+              <NextImage
+                src={msg.thumbnailUrl ?? msg.attachmentUrl}
+                alt={msg.attachment.name}
+                width={480}
+                height={240}
+                sizes="(max-width: 640px) 100vw, 480px"
+                className="h-auto w-auto max-h-60 max-w-full rounded-lg object-cover"
+              />
+            </a>
+          ) : (
+            <a
+              href={msg.attachmentUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              download={msg.attachment.name}
+              className={cn(
+                "mt-1 flex items-center gap-2 rounded-lg px-3 py-2",
+                isSelf ? "bg-blue-400/40" : "bg-blue-50 dark:bg-zinc-700"
+              )}
+            >
+              <FileText className="w-5 h-5 shrink-0" />
+              <span className="truncate">{msg.attachment.name}</span>
+              <span className="ml-auto text-[10px] opacity-70 shrink-0">{formatFileSize(msg.attachment.size)}</span>
+            </a>
+          )
         )}
         {/* Reactions row inside bubble */}
         <div className="flex items-center gap-1 mt-2">
-          {msg.reactions && msg.reactions.length > 0 && (
-            <div className="flex gap-1">
-              {REACTION_EMOJIS.map((emoji: string) => {
-                const users = msg.reactions?.filter((r: { emoji: string; user: string }) => r.emoji === emoji) || [];
-                if (!users.length) return null;
-                return (
-                  <span key={emoji} className="px-1 rounded bg-blue-100 dark:bg-blue-800 text-blue-700 dark:text-blue-200 text-xs flex items-center gap-1">
-                    {emoji} <span className="font-bold">{users.length}</span>
-                  </span>
-                );
-              })}
-            </div>
+          {reactionGroups.length > 0 && (
+            <TooltipProvider delayDuration={300}>
+              <div className="flex flex-wrap gap-1">
+                {reactionGroups.map(({ emoji, users }) => {
+                  const reacted = users.includes(username);
+                  return (
+                    <Tooltip key={emoji}>
+                      <TooltipTrigger asChild>
+                        <button
+                          type="button"
+                          onClick={() => handleReact(msg._id, emoji)}
+                          aria-pressed={reacted}
+                          className={cn(
+                            "px-1 rounded text-xs flex items-center gap-1 border",
+                            reacted
+                              ? "bg-blue-200 dark:bg-blue-700 border-blue-400 dark:border-blue-300 text-blue-800 dark:text-blue-100"
+                              : "bg-blue-100 dark:bg-blue-800 border-transparent text-blue-700 dark:text-blue-200"
+                          )}
+                        >
+                          {emoji} <span className="font-bold">{users.length}</span>
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {users.map((user) => (user === username ? "You" : user)).join(", ")} reacted with {emoji}
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                })}
+              </div>
+            </TooltipProvider>
           )}
           {/* Smiley icon for reaction popover */}
-          <Popover open={reactionPopoverId === msg._id} onOpenChange={open => setReactionPopoverId(open ? msg._id : null)}>
+          <Popover
+            open={reactionPopoverId === msg._id}
+            onOpenChange={open => {
+              setReactionPopoverId(open ? msg._id : null);
+              if (!open) setShowEmojiPicker(false);
+            }}
+          >
             <PopoverTrigger asChild>
-              <button className="ml-1 p-1 rounded-full hover:bg-blue-400/20 dark:hover:bg-zinc-700/40 focus:outline-none">
+              <button disabled={isPending} className="ml-1 p-1 rounded-full hover:bg-blue-400/20 dark:hover:bg-zinc-700/40 focus:outline-none disabled:opacity-50">
                 <Smile className="w-4 h-4 text-blue-400 dark:text-blue-200" />
               </button>
             </PopoverTrigger>
-            <PopoverContent align="start" className="flex gap-1 p-2 z-50">
-              {REACTION_EMOJIS.map((emoji: string) => (
-                <button
-                  key={emoji}
-                  className="text-lg hover:scale-125 transition-transform"
-                  onClick={() => { handleReact(msg._id, emoji); setReactionPopoverId(null); }}
-                  type="button"
-                >
-                  {emoji}
-                </button>
-              ))}
+            <PopoverContent align="start" className="w-auto p-2 z-50">
+              {showEmojiPicker ? (
+                <EmojiPicker onSelect={emoji => { handleReact(msg._id, emoji); setReactionPopoverId(null); setShowEmojiPicker(false); }} />
+              ) : (
+                <div className="flex items-center gap-1">
+                  {REACTION_EMOJIS.map((emoji: string) => (
+                    <button
+                      key={emoji}
+                      className="text-lg hover:scale-125 transition-transform"
+                      onClick={() => { handleReact(msg._id, emoji); setReactionPopoverId(null); }}
+                      type="button"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    className="ml-1 p-1 rounded-full hover:bg-blue-400/20 dark:hover:bg-zinc-700/40"
+                    onClick={() => setShowEmojiPicker(true)}
+                    aria-label="More emoji"
+                  >
+                    <Plus className="w-4 h-4 text-blue-400 dark:text-blue-200" />
+                  </button>
+                </div>
+              )}
             </PopoverContent>
           </Popover>
+          {onOpenThread && (
+            <button
+              className="p-1 rounded-full hover:bg-blue-400/20 dark:hover:bg-zinc-700/40 focus:outline-none"
+              onClick={() => onOpenThread(msg._id)}
+              aria-label="Reply in thread"
+              type="button"
+            >
+              <MessageSquare className="w-4 h-4 text-blue-400 dark:text-blue-200" />
+            </button>
+          )}
         </div>
+        {/* Thread summary */}
+        {onOpenThread && !!msg.replyCount && (
+          <button
+            type="button"
+            onClick={() => onOpenThread(msg._id)}
+            className={cn("mt-1 text-xs font-medium hover:underline", isSelf ? "text-blue-100" : "text-blue-500 dark:text-blue-300")}
+          >
+            {msg.replyCount} {msg.replyCount === 1 ? "reply" : "replies"}
+            {msg.lastReplyAt && (
+              <span className="font-normal opacity-80">
+                {" "}· last by {msg.lastReplyBy} at {new Date(msg.lastReplyAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+          </button>
+        )}
         {/* Delivery/Read status for own messages */}
         {isSelf && (
           <div className="flex items-center gap-1 justify-end mt-1 text-xs text-blue-200 dark:text-blue-100 opacity-80">
-            {msg.readBy && msg.readBy.length > 1 ? (
+            {msg.readBy && msg.readBy.length > 0 ? (
               <>
                 <CheckCheck className="w-4 h-4 inline" />
-                <span>Read by {msg.readBy.length - 1}</span>
+                <span>Read by {msg.readBy.length}</span>
               </>
             ) : msg.delivered ? (
               <Check className="w-4 h-4 inline" />
@@ -288,7 +997,7 @@ function ChatMessage({
       </div>
       {isSelf && (
         <Avatar className="w-8 h-8">
-          <AvatarImage src={userInfo?.avatar} alt={username} />
+          <AvatarImage src={userInfo?.avatar ?? undefined} alt={username} />
           <AvatarFallback>{username?.[0]?.toUpperCase()}</AvatarFallback>
         </Avatar>
       )}
@@ -297,13 +1006,12 @@ function ChatMessage({
 }
 
 export function Chat() {
-  const [username, setUsername] = useState("");
+  const [loginName, setLoginName] = useState("");
   const [message, setMessage] = useState("");
-  const [isUsernameSet, setIsUsernameSet] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [userColor, setUserColor] = useState("#000000");
   const [userStatus, setUserStatus] = useState("");
-  const [isCheckingUsername, setIsCheckingUsername] = useState(false);
   const [showActivity, setShowActivity] = useState(false);
   const [deviceId, setDeviceId] = useState<string | null>(null);
   const [search, setSearch] = useState("");
@@ -311,27 +1019,129 @@ export function Chat() {
   const [editingText, setEditingText] = useState("");
   const [showSearch, setShowSearch] = useState(false);
   const [reactionPopoverId, setReactionPopoverId] = useState<Id<"messages"> | null>(null);
+  const [activeRoomId, setActiveRoomId] = useState<Id<"rooms"> | null>(null);
+  const [showRooms, setShowRooms] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showPinned, setShowPinned] = useState(false);
+  const [showMentions, setShowMentions] = useState(false);
+  const [inviteName, setInviteName] = useState("");
+  const [threadParentId, setThreadParentId] = useState<Id<"messages"> | null>(null);
+  const [threadReply, setThreadReply] = useState("");
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [quoting, setQuoting] = useState<Message | null>(null);
+  // Message to scroll to and flash, e.g. from a deep link or a quote preview
+  const [highlight, setHighlight] = useState<{ roomId: Id<"rooms">; messageId: Id<"messages"> } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const [showComposerEmoji, setShowComposerEmoji] = useState(false);
+  const [shortcodes, setShortcodes] = useState<EmojiShortcode[] | null>(null);
+  // The `:shortcode` or `@mention` being completed and where it sits in the message
+  const [completion, setCompletion] = useState<{
+    kind: "emoji" | "mention";
+    start: number;
+    end: number;
+    query: string;
+  } | null>(null);
+  const [completionIndex, setCompletionIndex] = useState(0);
   
   const { toast } = useToast();
-  const messages = useQuery(api.messages.list);
-  const userInfo = useQuery(api.users.getUser, { username });
+  const { isAuthenticated, isLoading: isAuthLoading } = useConvexAuth();
+  const { mode: authMode, signIn, signOut } = useAuthActions();
+  const userInfo = useQuery(api.users.me);
+  const username = userInfo?.username ?? "";
+  const isUsernameSet = isAuthenticated && !!userInfo;
+  const rooms = useQuery(api.rooms.list);
+  const directMessages = useQuery(api.directMessages.list);
+  const roomArgs = activeRoomId ? { roomId: activeRoomId } : "skip";
+  const activeRoom = useQuery(api.rooms.get, roomArgs);
+  const roomMembers = useQuery(api.rooms.listMembers, roomArgs);
+  const pinnedMessages = useQuery(api.messages.listPinned, roomArgs);
+  const {
+    results: messagePage,
+    status: messagesStatus,
+    loadMore: loadMoreMessages,
+  } = usePaginatedQuery(api.messages.list, roomArgs, { initialNumItems: MESSAGE_PAGE_SIZE });
+  const messages = useMemo(() => [...messagePage].reverse(), [messagePage]);
+  const {
+    results: searchResults,
+    status: searchStatus,
+    loadMore: loadMoreSearchResults,
+  } = usePaginatedQuery(
+    api.messages.searchMessages,
+    activeRoomId && search.trim() ? { roomId: activeRoomId, query: search } : "skip",
+    { initialNumItems: SEARCH_PAGE_SIZE }
+  );
+  const searchFilters = useMemo(() => parseSearchQuery(search), [search]);
+  const {
+    results: mentionResults,
+    status: mentionsStatus,
+    loadMore: loadMoreMentions,
+  } = usePaginatedQuery(api.messages.mentions, showMentions ? {} : "skip", { initialNumItems: MENTIONS_PAGE_SIZE });
   const savedAccounts = useQuery(api.users.getSavedAccounts, { deviceId: deviceId || "" });
   const accountCount = useQuery(api.users.getAccountCount, { deviceId: deviceId || "" });
-  const checkUsername = useQuery(api.users.checkUsername, { username: username.trim() });
   const onlineUsers = useQuery(api.users.getOnlineUsers);
-  const activityHistory = useQuery(api.users.getActivityHistory, { username });
+  const activityHistory = useQuery(api.users.getActivityHistory, {});
   const sendMessage = useMutation(api.messages.send);
+  const generateUploadUrl = useMutation(api.messages.generateUploadUrl);
+  const storeUser = useMutation(api.users.store);
+  const saveAccount = useMutation(api.users.saveAccount);
   const updatePreferences = useMutation(api.users.updatePreferences);
+  const recordEmojiUse = useMutation(api.users.recordEmojiUse);
   const updateStatus = useMutation(api.users.updateStatus);
   const updateAppearance = useMutation(api.users.updateAppearance);
-  const updatePresence = useMutation(api.users.updatePresence);
   const updateAvatar = useMutation(api.users.updateAvatar);
+  const generateAvatarUploadUrl = useMutation(api.users.generateAvatarUploadUrl);
   const editMessage = useMutation(api.messages.editMessage);
   const deleteMessage = useMutation(api.messages.deleteMessage);
+  const restoreMessage = useMutation(api.messages.restoreMessage);
   const reactToMessage = useMutation(api.messages.reactToMessage);
+  const forwardMessage = useMutation(api.messages.forwardMessage);
+  const pinMessage = useMutation(api.messages.pinMessage);
+  const unpinMessage = useMutation(api.messages.unpinMessage);
   const { setTheme, theme } = useTheme();
-  const typingUsers = useQuery(api.messages.getTypingUsers);
+  const typingUsers = useQuery(api.messages.getTypingUsers, roomArgs);
+  const thread = useQuery(api.messages.listThread, threadParentId ? { parentId: threadParentId } : "skip");
   const markRead = useMutation(api.messages.markRead);
+  const createRoom = useMutation(api.rooms.create);
+  const ensureDefaultRoom = useMutation(api.rooms.ensureDefault);
+  const joinRoom = useMutation(api.rooms.join);
+  const leaveRoom = useMutation(api.rooms.leave);
+  const inviteToRoom = useMutation(api.rooms.invite);
+  const kickFromRoom = useMutation(api.rooms.kick);
+  const setMemberRole = useMutation(api.rooms.setRole);
+  const setRoomMuted = useMutation(api.rooms.setMuted);
+  const openDirectMessage = useMutation(api.directMessages.open);
+
+  const readQueueRef = useRef<{ roomId: Id<"rooms">; timestamp: number } | null>(null);
+  // The read cursor as it was when the room was opened, so the "new messages"
+  // divider stays in place while the user reads
+  const [unreadSince, setUnreadSince] = useState<{ roomId: Id<"rooms">; lastReadAt: number } | null>(null);
+
+  const isMember = !!activeRoom?.role;
+  const quietHours = userInfo?.preferences?.quietHours ?? DEFAULT_QUIET_HOURS;
+  useMessageNotifications(userInfo?.preferences, handleOpenMessage);
+  const removePushSubscription = usePushSubscription(userInfo?.preferences?.notifications);
+  // Conversations the user can post into, for the Forward menu
+  const forwardTargets = useMemo<ForwardTarget[]>(() => [
+    ...(rooms ?? []).filter((room) => room.role).map((room) => ({ id: room._id, label: roomLabel(room) })),
+    ...(directMessages ?? []).map((dm) => ({
+      id: dm._id,
+      label: roomLabel({ name: "", kind: "direct", participants: dm.participants }),
+    })),
+  ], [rooms, directMessages]);
+  const canModerate = activeRoom?.role === "owner" || activeRoom?.role === "moderator";
+
+  useEffect(() => {
+    if (activeRoom?.lastReadAt != null && unreadSince?.roomId !== activeRoom._id) {
+      setUnreadSince({ roomId: activeRoom._id, lastReadAt: activeRoom.lastReadAt });
+    }
+  }, [activeRoom, unreadSince]);
+
+  const firstUnreadId = useMemo(() => {
+    if (!unreadSince || unreadSince.roomId !== activeRoomId) return null;
+    return messages.find((m) => m.timestamp > unreadSince.lastReadAt && m.username !== username)?._id ?? null;
+  }, [messages, unreadSince, activeRoomId, username]);
 
   // Initialize deviceId on client-side only
   useEffect(() => {
@@ -349,28 +1159,89 @@ export function Chat() {
     }
   }, [isUsernameSet, userInfo]);
 
-  // Check username availability
+  // Create or link the user record for the signed-in identity
   useEffect(() => {
-    if (username.trim() && !isUsernameSet) {
-      setIsCheckingUsername(true);
-    } else {
-      setIsCheckingUsername(false);
+    if (!isAuthenticated) return;
+    storeUser()
+      .then(() => deviceId && saveAccount({ deviceId }))
+      .catch((error) => {
+        console.error("Failed to store user:", error);
+      });
+  }, [isAuthenticated, deviceId, storeUser, saveAccount]);
+
+  // Open ?room=…&message=… deep links once on load
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const roomId = params.get("room");
+    const messageId = params.get("message");
+    if (!roomId || !CONVEX_ID_PATTERN.test(roomId)) return;
+    setActiveRoomId(roomId as Id<"rooms">);
+    if (messageId && CONVEX_ID_PATTERN.test(messageId)) {
+      setHighlight({ roomId: roomId as Id<"rooms">, messageId: messageId as Id<"messages"> });
     }
-  }, [username, isUsernameSet]);
+  }, []);
 
-  // Update presence on mount and unmount
+  // Scroll to the highlighted message, loading older pages until it shows up
   useEffect(() => {
-    if (!username) return;
-    
-    const interval = setInterval(() => {
-      updatePresence({ username, isOnline: true });
-    }, 30000);
-    
-    return () => {
-      clearInterval(interval);
-      updatePresence({ username, isOnline: false });
-    };
-  }, [username, updatePresence]);
+    if (!highlight || highlight.roomId !== activeRoomId || messagesStatus === "LoadingFirstPage") return;
+    const element = document.getElementById(`message-${highlight.messageId}`);
+    if (element) {
+      element.scrollIntoView({ block: "center", behavior: "smooth" });
+      const timeout = setTimeout(() => setHighlight(null), HIGHLIGHT_MS);
+      return () => clearTimeout(timeout);
+    }
+    if (messagesStatus === "CanLoadMore") {
+      loadMoreMessages(MESSAGE_PAGE_SIZE);
+    } else if (messagesStatus === "Exhausted") {
+      setHighlight(null);
+    }
+  }, [highlight, activeRoomId, messages, messagesStatus, loadMoreMessages]);
+
+  // Join the default room once the username is set
+  useEffect(() => {
+    if (!isUsernameSet || activeRoomId) return;
+    ensureDefaultRoom().then(setActiveRoomId).catch((error) => {
+      console.error("Failed to load default room:", error);
+    });
+  }, [isUsernameSet, activeRoomId, ensureDefaultRoom]);
+
+  const endPresenceSession = usePresence(isUsernameSet);
+
+  // Scroll-back: load older pages when the top sentinel becomes visible
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isNearBottom = useRef(true);
+  const prevScrollHeight = useRef<number | null>(null);
+  const { ref: topSentinelRef, inView: isTopInView } = useInView();
+
+  useEffect(() => {
+    if (!isTopInView || messagesStatus !== "CanLoadMore") return;
+    prevScrollHeight.current = scrollRef.current?.scrollHeight ?? null;
+    loadMoreMessages(MESSAGE_PAGE_SIZE);
+  }, [isTopInView, messagesStatus, loadMoreMessages]);
+
+  // Keep the viewport anchored: preserve position after prepending older
+  // messages, otherwise stick to the bottom if the user was already there
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    if (prevScrollHeight.current !== null) {
+      el.scrollTop += el.scrollHeight - prevScrollHeight.current;
+      prevScrollHeight.current = null;
+    } else if (isNearBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [messages]);
+
+  useEffect(() => {
+    isNearBottom.current = true;
+    prevScrollHeight.current = null;
+  }, [activeRoomId]);
+
+  const handleMessagesScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    isNearBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 100;
+  };
 
   // Build a user info map for avatars
   const userInfoMap = useMemo(() => {
@@ -381,61 +1252,222 @@ export function Chat() {
     }, new Map<string, UserInfo>());
   }, [onlineUsers]);
 
-  // Typing indicator logic
-  interface TypingUser {
-    username: string;
-    timestamp: number;
-  }
+  // Other people typing in the open conversation; ours is reported from the composer
+  const typingUsersList = typingUsers ?? [];
+  const typingIndicator = useTypingIndicator(isMember ? activeRoomId : null);
+  const outbox = useOutbox(userInfo ? { username: userInfo.username, color: userInfo.color } : null);
+  const failedMessages = outbox.failed.filter((entry) => entry.roomId === activeRoomId);
+
+  const shortcodeSuggestions = useMemo(
+    () => (completion?.kind === "emoji" && shortcodes ? matchShortcodes(shortcodes, completion.query) : []),
+    [completion, shortcodes]
+  );
+  const mentionSuggestions = useQuery(
+    api.users.search,
+    completion?.kind === "mention" && activeRoomId ? { prefix: completion.query, roomId: activeRoomId } : "skip"
+  ) ?? [];
+  const suggestionCount = completion?.kind === "mention" ? mentionSuggestions.length : shortcodeSuggestions.length;
+
+  // Replace part of the message (by default the selection) and put the caret
+  // after the inserted text
+  const insertIntoComposer = (text: string, start?: number, end?: number) => {
+    const textarea = composerRef.current;
+    const from = start ?? textarea?.selectionStart ?? message.length;
+    const to = end ?? textarea?.selectionEnd ?? from;
+    setMessage(message.slice(0, from) + text + message.slice(to));
+    setCompletion(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(from + text.length, from + text.length);
+    });
+  };
+
+  const handleShortcodeSelect = ({ emoji }: EmojiShortcode) => {
+    if (!completion) return;
+    const unicode = withSkinTone(emoji, userInfo?.preferences?.skinTone);
+    insertIntoComposer(`${unicode} `, completion.start, completion.end);
+    recordEmojiUse({ emoji: unicode }).catch(() => {});
+  };
+
+  const handleMentionSelect = (user: { username: string }) => {
+    if (!completion) return;
+    insertIntoComposer(`@${user.username} `, completion.start, completion.end);
+  };
 
-  const typingUsersList = useMemo(() => {
-    if (!typingUsers) return [];
-    return typingUsers.filter((u: TypingUser) => u.username !== username);
-  }, [typingUsers, username]);
+  const selectSuggestion = (index: number) => {
+    if (completion?.kind === "mention") handleMentionSelect(mentionSuggestions[index]);
+    else handleShortcodeSelect(shortcodeSuggestions[index]);
+  };
 
   // Handler for input typing
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    if (e.target.value.trim()) typingIndicator.touch();
+    else typingIndicator.stop();
+
+    const caret = e.target.selectionStart;
+    const beforeCaret = e.target.value.slice(0, caret);
+    const mention = MENTION_TRIGGER.exec(beforeCaret);
+    const shortcode = mention ? null : SHORTCODE_TRIGGER.exec(beforeCaret);
+    const match = mention ?? shortcode;
+    if (!match) {
+      setCompletion(null);
+      return;
+    }
+    setCompletion({
+      kind: mention ? "mention" : "emoji",
+      start: caret - match[1].length - 1,
+      end: caret,
+      query: match[1],
+    });
+    setCompletionIndex(0);
+    if (shortcode && !shortcodes) loadShortcodes().then(setShortcodes);
+  };
+
+  // Enter sends; Shift+Enter inserts a newline for multi-line messages and code.
+  // While suggestions are open the arrows, Enter and Tab drive the list instead.
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestionCount > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCompletionIndex((completionIndex + step + suggestionCount) % suggestionCount);
+        return;
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && !e.shiftKey) {
+        e.preventDefault();
+        selectSuggestion(Math.min(completionIndex, suggestionCount - 1));
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+    }
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({ title: "Error", description: `Files must be smaller than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`, variant: "destructive" });
+      return;
+    }
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      toast({ title: "Error", description: "This file type is not supported", variant: "destructive" });
+      return;
+    }
+    setPendingFile(file);
+  };
+
+  // Upload a blob to Convex storage and return its storage id
+  const uploadToStorage = async (blob: Blob) => {
+    const uploadUrl = await generateUploadUrl();
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": blob.type },
+      body: blob,
+    });
+    if (!response.ok) throw new Error("Upload failed");
+    const { storageId } = await response.json();
+    return storageId as Id<"_storage">;
   };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim()) return;
+    if ((!message.trim() && !pendingFile) || !activeRoomId) return;
+    typingIndicator.stop();
+    // Text goes through the outbox and shows up right away; files upload first
+    if (!pendingFile) {
+      const draft = { roomId: activeRoomId, text: message, quotedMessageId: quoting?._id };
+      setMessage("");
+      setQuoting(null);
+      outbox.send(draft).catch((error) => {
+        console.error("Failed to send message:", error);
+        toast(errorToast(error, error instanceof Error ? error.message : "Could not send message"));
+      });
+      return;
+    }
     try {
+      setIsUploading(!!pendingFile);
+      let attachment;
+      if (pendingFile) {
+        const [storageId, thumbnailId] = await Promise.all([
+          uploadToStorage(pendingFile),
+          isImageType(pendingFile.type) && pendingFile.type !== "image/gif"
+            ? createThumbnail(pendingFile).then(uploadToStorage)
+            : undefined,
+        ]);
+        attachment = { storageId, thumbnailId, name: pendingFile.name };
+      }
       await sendMessage({
+        roomId: activeRoomId,
         text: message,
-        username,
-        color: userColor || "#000000"
+        quotedMessageId: quoting?._id,
+        attachment,
       });
       setMessage("");
+      setPendingFile(null);
+      setQuoting(null);
     } catch (error) {
       console.error("Failed to send message:", error);
+      toast(errorToast(error, error instanceof Error ? error.message : "Could not send message"));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!threadReply.trim() || !activeRoomId || !threadParentId) return;
+    try {
+      await sendMessage({
+        roomId: activeRoomId,
+        text: threadReply,
+        parentId: threadParentId,
+      });
+      setThreadReply("");
+    } catch (error) {
+      console.error("Failed to send reply:", error);
+      toast(errorToast(error, "Could not send reply"));
     }
   };
 
   const handleSetUsername = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!username.trim()) return;
+    if (!loginName.trim()) return;
     try {
-      setIsCheckingUsername(true);
-      if (checkUsername?.isTaken) {
+      await signIn(loginName);
+    } catch (error) {
+      console.error("Failed to set username:", error);
+    }
+  };
+
+  // Ask for the browser's permission before turning desktop notifications on
+  const handleNotificationsChange = async (checked: boolean) => {
+    if (checked && "Notification" in window && Notification.permission !== "granted") {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
         toast({
-          title: "Error",
-          description: "Username already taken",
+          title: "Notifications blocked",
+          description: "Allow notifications for this site in your browser settings",
           variant: "destructive",
         });
         return;
       }
-      setIsUsernameSet(true);
-    } catch (error) {
-      console.error("Failed to set username:", error);
-    } finally {
-      setIsCheckingUsername(false);
     }
+    await handlePreferencesChange({ notifications: checked });
   };
 
   const handlePreferencesChange = async (preferences: Partial<UserPreferences>) => {
     try {
-      await updatePreferences({ username, preferences });
+      await updatePreferences({ preferences });
     } catch {
       toast({
         title: "Error",
@@ -447,7 +1479,7 @@ export function Chat() {
 
   const handleStatusChange = async (status: string) => {
     try {
-      await updateStatus({ username, status });
+      await updateStatus({ status });
       setUserStatus(status);
     } catch {
       toast({
@@ -460,7 +1492,7 @@ export function Chat() {
 
   const handleColorChange = async (color: string) => {
     try {
-      await updateAppearance({ username, color });
+      await updateAppearance({ color });
       setUserColor(color);
     } catch {
       toast({
@@ -475,48 +1507,287 @@ export function Chat() {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const compressed = await compressImage(file);
-      await updateAvatar({ username, avatar: compressed });
+      const [small, medium, large] = await Promise.all(
+        [AVATAR_SIZES.small, AVATAR_SIZES.medium, AVATAR_SIZES.large].map(async (size) => {
+          const blob = await resizeAvatar(file, size);
+          const uploadUrl = await generateAvatarUploadUrl();
+          const response = await fetch(uploadUrl, {
+            method: "POST",
+            headers: { "Content-Type": blob.type },
+            body: blob,
+          });
+          if (!response.ok) throw new Error("Upload failed");
+          const { storageId } = await response.json();
+          return storageId as Id<"_storage">;
+        })
+      );
+      await updateAvatar({ small, medium, large });
     } catch (error) {
       console.error("Failed to update avatar:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update avatar",
+        variant: "destructive",
+      });
     }
   };
 
   const loadAccount = async (account: SavedAccount) => {
-    setUsername(account.username);
-    setUserColor(account.color);
-    setUserStatus(account.status);
-    setIsUsernameSet(true);
+    try {
+      await signIn(account.username);
+    } catch (error) {
+      console.error("Failed to load account:", error);
+    }
   };
 
+  const handleSignOut = async () => {
+    // Pushes for this account should not keep arriving in this browser
+    await removePushSubscription().catch(() => {});
+    await endPresenceSession();
+    await signOut();
+    setActiveRoomId(null);
+    setShowSettings(false);
+  };
+
+  async function handleCreateRoom(name: string, visibility: "public" | "private") {
+    try {
+      const roomId = await createRoom({ name, visibility });
+      setActiveRoomId(roomId);
+      setShowRooms(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not create room",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function handleOpenDirectMessage(usernames: string[]) {
+    await runRoomAction(async () => {
+      handleSelectRoom(await openDirectMessage({ usernames }));
+    }, "Could not start conversation");
+  }
+
+  function handleSelectRoom(roomId: Id<"rooms">) {
+    setActiveRoomId(roomId);
+    setShowRooms(false);
+    setSearch("");
+    setThreadParentId(null);
+    setQuoting(null);
+  }
+
+  // Jump to a message from the mentions inbox or a notification; replies open their thread
+  function handleOpenMessage(target: { roomId: Id<"rooms">; messageId: Id<"messages">; parentId?: Id<"messages"> }) {
+    if (target.roomId !== activeRoomId) handleSelectRoom(target.roomId);
+    if (target.parentId) {
+      setThreadParentId(target.parentId);
+    } else {
+      setHighlight({ roomId: target.roomId, messageId: target.messageId });
+    }
+    setShowMentions(false);
+  }
+
+  async function handleToggleMute() {
+    if (!activeRoom) return;
+    try {
+      await setRoomMuted({ roomId: activeRoom._id, muted: !activeRoom.muted });
+      toast({
+        title: activeRoom.muted ? "Notifications on" : "Muted",
+        description: activeRoom.muted ? undefined : "You will only be notified when mentioned",
+      });
+    } catch (error) {
+      toast(errorToast(error, "Could not change notifications for this conversation"));
+    }
+  }
+
+  function handleOpenReference(preview: MessagePreview) {
+    if (preview.roomId !== activeRoomId) handleSelectRoom(preview.roomId);
+    setHighlight({ roomId: preview.roomId, messageId: preview._id });
+  }
+
+  async function handleForward(msgId: Id<"messages">, roomId: Id<"rooms">) {
+    try {
+      await forwardMessage({ messageId: msgId, roomId });
+      const target = forwardTargets.find((t) => t.id === roomId);
+      toast({ title: "Message forwarded", description: target?.label });
+    } catch (error) {
+      toast(errorToast(error, error instanceof Error ? error.message : "Could not forward message"));
+    }
+  }
+
+  // Run a membership mutation and surface its error as a toast
+  async function runRoomAction(action: () => Promise<unknown>, fallback: string) {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function handleJoinRoom() {
+    if (!activeRoomId) return;
+    await runRoomAction(() => joinRoom({ roomId: activeRoomId }), "Could not join room");
+  }
+
+  async function handleLeaveRoom() {
+    if (!activeRoomId) return;
+    await runRoomAction(async () => {
+      await leaveRoom({ roomId: activeRoomId });
+      setShowMembers(false);
+      setActiveRoomId(null);
+    }, "Could not leave room");
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!activeRoomId || !inviteName.trim()) return;
+    await runRoomAction(async () => {
+      await inviteToRoom({ roomId: activeRoomId, invitee: inviteName.trim() });
+      setInviteName("");
+      toast({ title: "Member added" });
+    }, "Could not invite user");
+  }
+
+  async function handleKick(target: string) {
+    if (!activeRoomId) return;
+    await runRoomAction(() => kickFromRoom({ roomId: activeRoomId, target }), "Could not remove member");
+  }
+
+  async function handleSetRole(target: string, role: "moderator" | "member") {
+    if (!activeRoomId) return;
+    await runRoomAction(() => setMemberRole({ roomId: activeRoomId, target, role }), "Could not change role");
+  }
+
   async function handleEdit(msgId: Id<"messages">, newText: string) {
     try {
-      await editMessage({ messageId: msgId, newText, username });
+      await editMessage({ messageId: msgId, newText });
       setEditingId(null);
       setEditingText("");
       toast({ title: "Message edited" });
-    } catch {
-      toast({ title: "Error", description: "Could not edit message", variant: "destructive" });
+    } catch (error) {
+      toast(errorToast(error, "Could not edit message"));
     }
   }
 
-  async function handleDelete(msgId: Id<"messages">) {
+  async function handleDelete(msgId: Id<"messages">, isOwn: boolean) {
     try {
-      await deleteMessage({ messageId: msgId, username });
-      toast({ title: "Message deleted" });
+      await deleteMessage({ messageId: msgId });
+      toast({
+        title: "Message deleted",
+        // Authors get a short window to take it back
+        action: isOwn ? (
+          <ToastAction altText="Restore the deleted message" onClick={() => handleRestore(msgId)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
+      });
     } catch {
       toast({ title: "Error", description: "Could not delete message", variant: "destructive" });
     }
   }
 
+  async function handleRestore(msgId: Id<"messages">) {
+    try {
+      await restoreMessage({ messageId: msgId });
+    } catch (error) {
+      toast(errorToast(error, error instanceof Error ? error.message : "Could not restore message"));
+    }
+  }
+
   async function handleReact(msgId: Id<"messages">, emoji: string) {
     try {
-      await reactToMessage({ messageId: msgId, user: username, emoji });
-    } catch {
-      toast({ title: "Error", description: "Could not react to message", variant: "destructive" });
+      await reactToMessage({ messageId: msgId, emoji });
+    } catch (error) {
+      toast(errorToast(error, "Could not react to message"));
     }
   }
 
+  async function handlePin(msgId: Id<"messages">, pinned: boolean) {
+    try {
+      await (pinned ? pinMessage : unpinMessage)({ messageId: msgId });
+      toast({ title: pinned ? "Message pinned" : "Message unpinned" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not update pin",
+        variant: "destructive",
+      });
+    }
+  }
+
+  // Queue the newest message seen in the active room; the read cursor is
+  // advanced once per READ_FLUSH_MS rather than once per message
+  function handleMessageSeen(timestamp: number) {
+    if (!activeRoomId || activeRoom?.lastReadAt == null || timestamp <= activeRoom.lastReadAt) return;
+    const queued = readQueueRef.current;
+    if (queued?.roomId === activeRoomId) {
+      queued.timestamp = Math.max(queued.timestamp, timestamp);
+      return;
+    }
+    if (queued) markRead(queued);
+    readQueueRef.current = { roomId: activeRoomId, timestamp };
+    setTimeout(() => {
+      const pending = readQueueRef.current;
+      readQueueRef.current = null;
+      if (pending) markRead(pending);
+    }, READ_FLUSH_MS);
+  }
+
+  function renderMessage(msg: Message, inThread = false) {
+    return (
+      <ChatMessage
+        key={msg._id}
+        msg={msg}
+        isSelf={msg.username === username}
+        isEditing={editingId === msg._id}
+        editingText={editingText}
+        setEditingId={setEditingId}
+        setEditingText={setEditingText}
+        handleEdit={handleEdit}
+        handleDelete={handleDelete}
+        handleReact={handleReact}
+        handlePin={handlePin}
+        reactionPopoverId={reactionPopoverId}
+        setReactionPopoverId={setReactionPopoverId}
+        userInfo={userInfo}
+        username={username}
+        canModerate={canModerate}
+        onSeen={inThread ? undefined : handleMessageSeen}
+        onOpenThread={inThread ? undefined : setThreadParentId}
+        onQuote={inThread ? undefined : setQuoting}
+        forwardTargets={forwardTargets}
+        handleForward={handleForward}
+        onOpenReference={handleOpenReference}
+        isHighlighted={highlight?.messageId === msg._id}
+      />
+    );
+  }
+
+  if (isAuthLoading || (isAuthenticated && !userInfo)) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!isUsernameSet && authMode === "clerk") {
+    return (
+      <Card className="p-6 max-w-md mx-auto mt-8 space-y-4">
+        <h2 className="text-2xl font-bold">Welcome</h2>
+        <p className="text-sm text-gray-500">Sign in to start chatting.</p>
+        <Button className="w-full" onClick={() => signIn()}>
+          Sign in
+        </Button>
+      </Card>
+    );
+  }
+
   if (!isUsernameSet) {
     return (
       <Card className="p-6 max-w-md mx-auto mt-8">
@@ -533,14 +1804,11 @@ export function Chat() {
                 <Label htmlFor="username">Username</Label>
                 <Input
                   id="username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
+                  value={loginName}
+                  onChange={(e) => setLoginName(e.target.value)}
                   placeholder="Choose a username"
                   className="w-full"
                 />
-                {isCheckingUsername && checkUsername?.isTaken && (
-                  <p className="text-sm text-red-500">This username is already taken</p>
-                )}
                 {accountCount && (
                   <p className="text-sm text-gray-500">
                     {accountCount.count} of {accountCount.maxAccounts} accounts used
@@ -569,7 +1837,7 @@ export function Chat() {
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-3">
                           <Avatar>
-                            <AvatarImage src={account.avatar} />
+                            <AvatarImage src={account.avatar ?? undefined} />
                             <AvatarFallback>{account.username[0].toUpperCase()}</AvatarFallback>
                           </Avatar>
                           <div>
@@ -600,219 +1868,674 @@ export function Chat() {
   }
 
   return (
-    <div className="flex flex-col h-screen bg-gradient-to-b from-blue-100 to-white dark:from-zinc-900 dark:to-zinc-950 transition-colors duration-300 relative">
-      {/* Messenger-style Header (no Simple Chat or redundant header) */}
-      <div className="flex items-center justify-between px-4 py-3 bg-white/80 dark:bg-zinc-900/80 backdrop-blur border-b border-blue-200 dark:border-zinc-800 sticky top-0 z-10 shadow-sm">
-        <div className="flex items-center gap-3">
-          <Avatar className="w-10 h-10">
-            <AvatarImage src={userInfo?.avatar} alt={username} />
-            <AvatarFallback>{username?.[0]?.toUpperCase()}</AvatarFallback>
-          </Avatar>
-          <div>
-            <div className="font-semibold text-blue-900 dark:text-zinc-100 text-base sm:text-lg">{username}</div>
-            <div className="text-xs text-blue-500 dark:text-zinc-400">{userInfo?.status || "Active now"}</div>
-          </div>
-        </div>
-        <div className="flex gap-2">
-          <Button variant="ghost" size="icon" onClick={() => setShowSearch((v) => !v)} aria-label="Search">
-            <Search className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
-          </Button>
-          <Button variant="ghost" size="icon" onClick={() => setShowSettings((v) => !v)} aria-label="Settings">
-            <svg className="w-5 h-5 text-blue-500 dark:text-zinc-200" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 8 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 5 15.4a1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 8a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 8 4.6a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09c.38.07.73.24 1 .51a1.65 1.65 0 0 0 1.82.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 8c.07.38.24.73.51 1H21a2 2 0 0 1 0 4h-.09c-.07.38-.24.73-.51 1z"/></svg>
-          </Button>
-          <Button variant="ghost" size="icon" onClick={() => setShowActivity((v) => !v)} aria-label="Activity">
-            <svg className="w-5 h-5 text-pink-400 dark:text-pink-300" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M12 8v4l3 3"/><circle cx="12" cy="12" r="10"/></svg>
-          </Button>
-        </div>
-      </div>
+    <div className="flex h-screen bg-gradient-to-b from-blue-100 to-white dark:from-zinc-900 dark:to-zinc-950 transition-colors duration-300 relative">
+      {/* Room sidebar (toggleable on mobile) */}
+      <RoomSidebar
+        rooms={rooms}
+        directMessages={directMessages}
+        activeRoomId={activeRoomId}
+        onSelectRoom={handleSelectRoom}
+        onCreateRoom={handleCreateRoom}
+        onOpenDirectMessage={handleOpenDirectMessage}
+        isOpen={showRooms}
+      />
 
-      {/* Search Panel (slide-in on mobile) */}
-      {showSearch && (
-        <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">Search Messages</h3>
-            <Button variant="ghost" size="icon" onClick={() => setShowSearch(false)} aria-label="Close">
-              <span className="text-2xl">×</span>
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Messenger-style Header (no Simple Chat or redundant header) */}
+        <div className="flex items-center justify-between px-4 py-3 bg-white/80 dark:bg-zinc-900/80 backdrop-blur border-b border-blue-200 dark:border-zinc-800 sticky top-0 z-10 shadow-sm">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="sm:hidden" onClick={() => setShowRooms((v) => !v)} aria-label="Rooms">
+              <Hash className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
             </Button>
+            <Avatar className="w-10 h-10">
+              <AvatarImage src={userInfo?.avatar ?? undefined} alt={username} />
+              <AvatarFallback>{username?.[0]?.toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div>
+              <div className="font-semibold text-blue-900 dark:text-zinc-100 text-base sm:text-lg">
+                {activeRoom ? roomLabel(activeRoom) : username}
+              </div>
+              <div className="text-xs text-blue-500 dark:text-zinc-400">{activeRoom?.topic || userInfo?.status || "Active now"}</div>
+            </div>
           </div>
-          <div className="space-y-4">
-            <Input
-              type="text"
-              value={search}
-              onChange={e => setSearch(e.target.value)}
-              placeholder="Search messages..."
-              className="w-full"
-            />
-            <div className="space-y-2 max-h-64 overflow-y-auto">
-              {search && messages?.length === 0 && (
-                <p className="text-gray-500 dark:text-zinc-400">No results found.</p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setShowMembers((v) => !v)} aria-label="Members">
+              <Users className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+            </Button>
+            {isMember && (
+              <Button variant="ghost" size="icon" onClick={handleToggleMute} aria-label={activeRoom?.muted ? "Unmute" : "Mute"}>
+                {activeRoom?.muted ? (
+                  <BellOff className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+                ) : (
+                  <Bell className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+                )}
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => setShowPinned((v) => !v)} aria-label="Pinned messages">
+              <Pin className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setShowMentions((v) => !v)} aria-label="Mentions">
+              <AtSign className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setShowSearch((v) => !v)} aria-label="Search">
+              <Search className="w-5 h-5 text-blue-500 dark:text-zinc-200" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setShowSettings((v) => !v)} aria-label="Settings">
+              <svg className="w-5 h-5 text-blue-500 dark:text-zinc-200" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 8 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 5 15.4a1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 8a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 8 4.6a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09c.38.07.73.24 1 .51a1.65 1.65 0 0 0 1.82.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 8c.07.38.24.73.51 1H21a2 2 0 0 1 0 4h-.09c-.07.38-.24.73-.51 1z"/></svg>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setShowActivity((v) => !v)} aria-label="Activity">
+              <svg className="w-5 h-5 text-pink-400 dark:text-pink-300" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M12 8v4l3 3"/><circle cx="12" cy="12" r="10"/></svg>
+            </Button>
+          </div>
+        </div>
+
+        {/* Pinned banner: the most recent pin stays visible above the messages */}
+        {pinnedMessages && pinnedMessages.length > 0 && !showPinned && (
+          <button
+            type="button"
+            onClick={() => setShowPinned(true)}
+            className="flex items-center gap-2 px-4 py-2 text-left text-sm bg-yellow-50 dark:bg-zinc-800/80 border-b border-yellow-200 dark:border-zinc-700 text-blue-900 dark:text-zinc-100"
+          >
+            <Pin className="w-4 h-4 shrink-0 text-yellow-500" />
+            <span className="font-medium shrink-0">{pinnedMessages[0].username}:</span>
+            <span className="truncate">{pinnedMessages[0].text || pinnedMessages[0].attachment?.name}</span>
+            {pinnedMessages.length > 1 && (
+              <span className="ml-auto shrink-0 text-xs text-blue-400 dark:text-zinc-400">+{pinnedMessages.length - 1} more</span>
+            )}
+          </button>
+        )}
+
+        {/* Pinned Panel (slide-in on mobile) */}
+        {showPinned && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Pinned Messages</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowPinned(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
+            </div>
+            <div className="space-y-2 max-h-[80vh] overflow-y-auto">
+              {pinnedMessages?.length === 0 && (
+                <p className="text-gray-500 dark:text-zinc-400">Nothing pinned yet. Pin a message from its menu.</p>
               )}
-              {search && messages?.map((msg) => (
+              {pinnedMessages?.map((msg) => (
                 <Card key={msg._id} className="p-2 flex flex-col gap-1 bg-blue-50 dark:bg-zinc-800">
                   <div className="flex items-center gap-2">
                     <Avatar className="w-6 h-6">
-                      <AvatarImage src={userInfoMap.get(msg.username)?.avatar} alt={msg.username} />
+                      <AvatarImage src={userInfoMap.get(msg.username)?.avatar ?? undefined} alt={msg.username} />
                     </Avatar>
                     <span className="font-medium text-blue-900 dark:text-zinc-100">{msg.username}</span>
-                    <span className="text-xs text-blue-400 dark:text-zinc-400">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className="text-xs text-blue-400 dark:text-zinc-400">{new Date(msg.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    {(msg.username === username || canModerate) && (
+                      <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handlePin(msg._id, false)}>
+                        Unpin
+                      </Button>
+                    )}
                   </div>
-                  <div className="text-sm text-blue-900 dark:text-zinc-100">{msg.text}</div>
+                  {msg.text && <Markdown text={msg.text} className="text-sm text-blue-900 dark:text-zinc-100" />}
+                  {msg.attachment && msg.attachmentUrl && (
+                    <a href={msg.attachmentUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs text-blue-500 dark:text-blue-300 hover:underline">
+                      <FileText className="w-3 h-3" />
+                      {msg.attachment.name}
+                    </a>
+                  )}
+                  <span className="text-[10px] text-blue-300 dark:text-zinc-500">Pinned by {msg.pinnedBy}</span>
                 </Card>
               ))}
             </div>
-          </div>
-        </Card>
-      )}
+          </Card>
+        )}
 
-      {/* Settings Panel (slide-in on mobile) */}
-      {showSettings && (
-        <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">Settings</h3>
-            <Button variant="ghost" size="icon" onClick={() => setShowSettings(false)} aria-label="Close">
-              <span className="text-2xl">×</span>
-            </Button>
-          </div>
-          <div className="space-y-4">
-            <div>
-              <Label>Avatar</Label>
-              <Input
-                type="file"
-                accept="image/*"
-                onChange={handleAvatarChange}
-                className="mt-1"
-              />
+        {/* Mentions Panel (slide-in on mobile) */}
+        {showMentions && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Mentions</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowMentions(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
             </div>
-            <div>
-              <Label>Status</Label>
-              <Input
-                value={userStatus}
-                onChange={(e) => handleStatusChange(e.target.value)}
-                placeholder="Set your status"
-                className="mt-1"
-              />
+            <div className="space-y-2 max-h-[80vh] overflow-y-auto">
+              {mentionsStatus !== "LoadingFirstPage" && mentionResults.length === 0 && (
+                <p className="text-gray-500 dark:text-zinc-400">Nobody has mentioned you yet.</p>
+              )}
+              {mentionResults.map((mention) => (
+                <button
+                  key={mention._id}
+                  type="button"
+                  onClick={() => handleOpenMessage(mention)}
+                  className="w-full text-left"
+                >
+                  <Card className="p-2 flex flex-col gap-1 bg-blue-50 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-zinc-700">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="w-6 h-6">
+                        <AvatarImage src={userInfoMap.get(mention.username)?.avatar ?? undefined} alt={mention.username} />
+                      </Avatar>
+                      <span className="font-medium text-blue-900 dark:text-zinc-100">{mention.username}</span>
+                      <span className="text-xs text-blue-400 dark:text-zinc-400 truncate">
+                        {mention.isDirect ? "Direct message" : `#${mention.roomName}`}
+                        {mention.parentId && " · thread"}
+                      </span>
+                      <span className="ml-auto shrink-0 text-xs text-blue-400 dark:text-zinc-400">{new Date(mention.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    </div>
+                    <Markdown text={mention.text} mentions={[username]} self={username} className="text-sm text-blue-900 dark:text-zinc-100 line-clamp-3" />
+                  </Card>
+                </button>
+              ))}
+              {mentionsStatus === "CanLoadMore" && (
+                <Button variant="ghost" className="w-full" onClick={() => loadMoreMentions(MENTIONS_PAGE_SIZE)}>
+                  Load more
+                </Button>
+              )}
+              {(mentionsStatus === "LoadingFirstPage" || mentionsStatus === "LoadingMore") && (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />
+                </div>
+              )}
             </div>
-            <div>
-              <Label>Color</Label>
+          </Card>
+        )}
+
+        {/* Search Panel (slide-in on mobile) */}
+        {showSearch && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Search Messages</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowSearch(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
+            </div>
+            <div className="space-y-4">
               <Input
-                type="color"
-                value={userColor}
-                onChange={(e) => handleColorChange(e.target.value)}
-                className="mt-1"
+                type="text"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder={activeRoom ? `Search ${roomLabel(activeRoom)}...` : "Search messages..."}
+                className="w-full"
               />
+              <div className="flex flex-wrap gap-1 text-xs">
+                {searchFilters.from && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-zinc-800">from: {searchFilters.from}</span>
+                )}
+                {searchFilters.after !== undefined && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-zinc-800">
+                    after: {new Date(searchFilters.after).toLocaleDateString()}
+                  </span>
+                )}
+                {searchFilters.before !== undefined && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-zinc-800">
+                    before: {new Date(searchFilters.before).toLocaleDateString()}
+                  </span>
+                )}
+                {searchFilters.hasReaction && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-zinc-800">has: reaction</span>
+                )}
+                {!search && (
+                  <span className="text-gray-500 dark:text-zinc-400">
+                    Filters: from:name, before:YYYY-MM-DD, after:YYYY-MM-DD, has:reaction
+                  </span>
+                )}
+              </div>
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {search && searchStatus !== "LoadingFirstPage" && searchResults.length === 0 && (
+                  <p className="text-gray-500 dark:text-zinc-400">No results found.</p>
+                )}
+                {search && searchResults.map((msg) => (
+                  <Card key={msg._id} className="p-2 flex flex-col gap-1 bg-blue-50 dark:bg-zinc-800">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="w-6 h-6">
+                        <AvatarImage src={userInfoMap.get(msg.username)?.avatar ?? undefined} alt={msg.username} />
+                      </Avatar>
+                      <span className="font-medium text-blue-900 dark:text-zinc-100">{msg.username}</span>
+                      <span className="text-xs text-blue-400 dark:text-zinc-400">{new Date(msg.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    </div>
+                    <Markdown text={msg.text} className="text-sm text-blue-900 dark:text-zinc-100" />
+                  </Card>
+                ))}
+                {search && searchStatus === "CanLoadMore" && (
+                  <Button variant="ghost" className="w-full" onClick={() => loadMoreSearchResults(SEARCH_PAGE_SIZE)}>
+                    Load more
+                  </Button>
+                )}
+                {search && searchStatus === "LoadingMore" && (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />
+                  </div>
+                )}
+              </div>
             </div>
-            <div>
-              <Label>Theme</Label>
-              <Select
-                value={theme}
-                onValueChange={setTheme}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select theme" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="light">Light</SelectItem>
-                  <SelectItem value="dark">Dark</SelectItem>
-                  <SelectItem value="system">System</SelectItem>
-                </SelectContent>
-              </Select>
+          </Card>
+        )}
+
+        {/* Thread Panel (slide-in on mobile) */}
+        {threadParentId && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Thread</h3>
+              <Button variant="ghost" size="icon" onClick={() => setThreadParentId(null)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
             </div>
-            <div className="flex items-center space-x-2">
-              <Switch
-                checked={userInfo?.preferences?.notifications}
-                onCheckedChange={(checked) => handlePreferencesChange({ notifications: checked })}
-              />
-              <Label>Notifications</Label>
+            {thread === undefined ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />
+              </div>
+            ) : thread === null ? (
+              <p className="text-gray-500 dark:text-zinc-400">Thread not found.</p>
+            ) : (
+              <>
+                <div className="flex-1 overflow-y-auto space-y-2">
+                  {renderMessage(thread.parent, true)}
+                  <div className="text-xs text-gray-500 dark:text-zinc-400 border-b border-blue-100 dark:border-zinc-800 pb-1">
+                    {thread.replies.length} {thread.replies.length === 1 ? "reply" : "replies"}
+                  </div>
+                  {thread.replies.map((reply) => renderMessage(reply, true))}
+                </div>
+                {isMember && (
+                  <form onSubmit={handleSendReply} className="flex items-center gap-2 pt-3">
+                    <Input
+                      value={threadReply}
+                      onChange={(e) => setThreadReply(e.target.value)}
+                      placeholder="Reply in thread"
+                    />
+                    <Button type="submit">Reply</Button>
+                  </form>
+                )}
+              </>
+            )}
+          </Card>
+        )}
+
+        {/* Members Panel (slide-in on mobile) */}
+        {showMembers && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Members</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowMembers(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
             </div>
-            <div className="flex items-center space-x-2">
-              <Switch
-                checked={userInfo?.preferences?.sound}
-                onCheckedChange={(checked) => handlePreferencesChange({ sound: checked })}
-              />
-              <Label>Sound</Label>
+            <div className="space-y-4">
+              {canModerate && (
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <Input
+                    value={inviteName}
+                    onChange={(e) => setInviteName(e.target.value)}
+                    placeholder="Invite by username"
+                  />
+                  <Button type="submit">Invite</Button>
+                </form>
+              )}
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {roomMembers?.map((member) => (
+                  <div key={member._id} className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="relative shrink-0">
+                        <Avatar className="w-6 h-6">
+                          <AvatarImage src={userInfoMap.get(member.username)?.avatar ?? undefined} alt={member.username} />
+                          <AvatarFallback>{member.username[0]?.toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <PresenceDot presence={userInfoMap.get(member.username)?.presence} />
+                      </span>
+                      <span className="truncate font-medium">{member.username}</span>
+                      <span className="text-xs text-gray-500 dark:text-zinc-400">{member.role}</span>
+                    </div>
+                    {member.username !== username && (
+                      <div className="flex gap-1">
+                        {activeRoom?.kind !== "direct" && (
+                          <Button variant="ghost" size="sm" onClick={() => handleOpenDirectMessage([member.username])}>
+                            Message
+                          </Button>
+                        )}
+                        {activeRoom?.role === "owner" && member.role !== "owner" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSetRole(member.username, member.role === "moderator" ? "member" : "moderator")}
+                          >
+                            {member.role === "moderator" ? "Demote" : "Promote"}
+                          </Button>
+                        )}
+                        {canModerate && member.role !== "owner" && (activeRoom?.role === "owner" || member.role === "member") && (
+                          <Button variant="ghost" size="sm" className="text-red-500" onClick={() => handleKick(member.username)}>
+                            Kick
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {isMember && (
+                <Button variant="outline" className="w-full" onClick={handleLeaveRoom}>
+                  {activeRoom?.kind === "direct" ? "Leave conversation" : "Leave room"}
+                </Button>
+              )}
             </div>
-          </div>
-        </Card>
-      )}
+          </Card>
+        )}
 
-      {/* Activity Panel (slide-in on mobile) */}
-      {showActivity && (
-        <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">Activity History</h3>
-            <Button variant="ghost" size="icon" onClick={() => setShowActivity(false)} aria-label="Close">
-              <span className="text-2xl">×</span>
-            </Button>
-          </div>
-          <div className="space-y-2 max-h-64 overflow-y-auto">
-            {activityHistory?.map((activity) => (
-              <div key={activity._id} className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium">{activity.type}</p>
-                  {activity.details && (
-                    <p className="text-sm text-gray-500 dark:text-zinc-400">{activity.details}</p>
-                  )}
+        {/* Settings Panel (slide-in on mobile) */}
+        {showSettings && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Settings</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowSettings(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <Label>Avatar</Label>
+                <Input
+                  type="file"
+                  accept="image/*"
+                  onChange={handleAvatarChange}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Input
+                  value={userStatus}
+                  onChange={(e) => handleStatusChange(e.target.value)}
+                  placeholder="Set your status"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Color</Label>
+                <Input
+                  type="color"
+                  value={userColor}
+                  onChange={(e) => handleColorChange(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Theme</Label>
+                <Select
+                  value={theme}
+                  onValueChange={setTheme}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select theme" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="light">Light</SelectItem>
+                    <SelectItem value="dark">Dark</SelectItem>
+                    <SelectItem value="system">System</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={userInfo?.preferences?.notifications}
+                  onCheckedChange={handleNotificationsChange}
+                />
+                <Label>Notifications</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={userInfo?.preferences?.sound}
+                  onCheckedChange={(checked) => handlePreferencesChange({ sound: checked })}
+                />
+                <Label>Sound</Label>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={quietHours.enabled}
+                    onCheckedChange={(checked) => handlePreferencesChange({ quietHours: { ...quietHours, enabled: checked } })}
+                  />
+                  <Label>Do not disturb</Label>
                 </div>
-                <p className="text-sm text-gray-400 dark:text-zinc-500">
-                  {new Date(activity.timestamp).toLocaleString()}
-                </p>
+                {quietHours.enabled && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Input
+                      type="time"
+                      value={toTimeInput(quietHours.start)}
+                      onChange={(e) => e.target.value && handlePreferencesChange({ quietHours: { ...quietHours, start: fromTimeInput(e.target.value) } })}
+                      aria-label="Quiet hours start"
+                    />
+                    <span>to</span>
+                    <Input
+                      type="time"
+                      value={toTimeInput(quietHours.end)}
+                      onChange={(e) => e.target.value && handlePreferencesChange({ quietHours: { ...quietHours, end: fromTimeInput(e.target.value) } })}
+                      aria-label="Quiet hours end"
+                    />
+                  </div>
+                )}
               </div>
-            ))}
-          </div>
-        </Card>
-      )}
+              <Button variant="outline" className="w-full" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </div>
+          </Card>
+        )}
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto px-1 sm:px-2 py-2 sm:py-4 space-y-2 bg-[url('/clouds.webp')] dark:bg-none bg-cover bg-center transition-colors">
-        {messages?.map((msg) => {
-          const isSelf = msg.username === username;
-          const isEditing = editingId === msg._id;
-          return (
-            <ChatMessage
-              key={msg._id}
-              msg={msg}
-              isSelf={isSelf}
-              isEditing={isEditing}
-              editingText={editingText}
-              setEditingId={setEditingId}
-              setEditingText={setEditingText}
-              handleEdit={handleEdit}
-              handleDelete={handleDelete}
-              handleReact={handleReact}
-              reactionPopoverId={reactionPopoverId}
-              setReactionPopoverId={setReactionPopoverId}
-              userInfo={userInfo}
-              username={username}
-              markRead={markRead}
-            />
-          );
-        })}
-        {/* Typing indicator at the bottom */}
-        {typingUsersList.length > 0 && (
-          <div className="absolute left-0 right-0 bottom-20 flex items-center justify-center pointer-events-none select-none">
-            <div className="bg-white/80 dark:bg-zinc-900/80 rounded-full px-4 py-1 text-blue-500 dark:text-blue-200 text-xs shadow">
-              {typingUsersList.map(u => u.username).join(", ")} {typingUsersList.length === 1 ? "is" : "are"} typing…
+        {/* Activity Panel (slide-in on mobile) */}
+        {showActivity && (
+          <Card className="fixed sm:absolute top-0 right-0 h-full w-full sm:w-96 z-30 p-6 shadow-2xl bg-white dark:bg-zinc-900 transition-transform duration-300 transform sm:translate-x-0 translate-x-0 sm:rounded-none rounded-l-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Activity History</h3>
+              <Button variant="ghost" size="icon" onClick={() => setShowActivity(false)} aria-label="Close">
+                <span className="text-2xl">×</span>
+              </Button>
+            </div>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {activityHistory?.map((activity) => (
+                <div key={activity._id} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{activity.type}</p>
+                    {activity.details && (
+                      <p className="text-sm text-gray-500 dark:text-zinc-400">{activity.details}</p>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-400 dark:text-zinc-500">
+                    {new Date(activity.timestamp).toLocaleString()}
+                  </p>
+                </div>
+              ))}
             </div>
+          </Card>
+        )}
+
+        {/* Messages */}
+        <div
+          ref={scrollRef}
+          onScroll={handleMessagesScroll}
+          className="flex-1 overflow-y-auto px-1 sm:px-2 py-2 sm:py-4 space-y-2 bg-[url('/clouds.webp')] dark:bg-none bg-cover bg-center transition-colors"
+        >
+          <div ref={topSentinelRef} className="h-px" />
+          {messagesStatus === "LoadingMore" && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />
+            </div>
+          )}
+          {messagesStatus === "Exhausted" && messages.length > 0 && (
+            <div className="text-center text-xs text-blue-300 dark:text-zinc-500 py-2">
+              {activeRoom ? `This is the beginning of ${roomLabel(activeRoom)}` : "No older messages"}
+            </div>
+          )}
+          {messages.map((msg) => (
+            <React.Fragment key={msg._id}>
+              {msg._id === firstUnreadId && (
+                <div className="flex items-center gap-2 py-1 text-xs font-medium text-red-500 dark:text-red-400">
+                  <div className="flex-1 border-t border-red-300 dark:border-red-500/60" />
+                  New messages
+                  <div className="flex-1 border-t border-red-300 dark:border-red-500/60" />
+                </div>
+              )}
+              {renderMessage(msg)}
+            </React.Fragment>
+          ))}
+          {/* Messages the server rejected, kept in the outbox until retried or discarded */}
+          {failedMessages.map((entry) => (
+            <div key={entry.clientId} className="flex flex-col items-end gap-1">
+              <div className="max-w-[80vw] sm:max-w-[70%] rounded-2xl rounded-br-md px-3 sm:px-4 py-2 text-sm shadow bg-blue-500/60 text-white dark:bg-blue-600/60">
+                <Markdown text={entry.text} />
+              </div>
+              <div className="flex items-center gap-2 text-xs text-red-500 dark:text-red-400">
+                <AlertCircle className="w-3.5 h-3.5" />
+                <span>Failed to send</span>
+                <button
+                  type="button"
+                  className="font-medium hover:underline"
+                  onClick={() => outbox.retry(entry).catch((error) => toast(errorToast(error, "Could not send message")))}
+                >
+                  Retry
+                </button>
+                <button type="button" className="text-gray-500 dark:text-zinc-400 hover:underline" onClick={() => outbox.discard(entry)}>
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+          {/* Typing indicator at the bottom */}
+          {typingUsersList.length > 0 && (
+            <div className="absolute left-0 right-0 bottom-20 flex items-center justify-center pointer-events-none select-none">
+              <div className="bg-white/80 dark:bg-zinc-900/80 rounded-full px-4 py-1 text-blue-500 dark:text-blue-200 text-xs shadow">
+                {typingUsersList.map(u => u.username).join(", ")} {typingUsersList.length === 1 ? "is" : "are"} typing…
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Input Bar */}
+        {!activeRoom || isMember ? (
+          <form
+            onSubmit={handleSendMessage}
+            className="flex flex-wrap items-end gap-2 px-2 sm:px-4 py-3 bg-white/90 dark:bg-zinc-900/90 border-t border-blue-200 dark:border-zinc-800 sticky bottom-0 z-10"
+          >
+            {quoting && (
+              <div className="basis-full flex items-center gap-2 rounded-2xl bg-blue-100 dark:bg-zinc-800 px-4 py-1 text-xs text-blue-900 dark:text-zinc-100">
+                <Quote className="w-3 h-3 shrink-0" />
+                <span className="font-medium shrink-0">{quoting.username}</span>
+                <span className="truncate opacity-80">{quoting.text || quoting.attachment?.name}</span>
+                <button type="button" className="ml-auto" onClick={() => setQuoting(null)} aria-label="Cancel quote">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+            {showPreview && (
+              <div className="basis-full max-h-60 overflow-y-auto rounded-2xl border border-blue-100 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-4 py-2 text-sm text-blue-900 dark:text-zinc-100">
+                {message.trim() ? (
+                  <Markdown text={message} />
+                ) : (
+                  <span className="text-blue-300 dark:text-zinc-500">Nothing to preview</span>
+                )}
+              </div>
+            )}
+            <ComposerSuggestions
+              items={shortcodeSuggestions}
+              activeIndex={completionIndex}
+              getKey={(item) => item.shortcode}
+              renderItem={(item) => (
+                <>
+                  <span className="text-lg leading-none">{withSkinTone(item.emoji, userInfo?.preferences?.skinTone)}</span>
+                  <span>:{item.shortcode}:</span>
+                </>
+              )}
+              onSelect={handleShortcodeSelect}
+            />
+            <ComposerSuggestions
+              items={mentionSuggestions}
+              activeIndex={completionIndex}
+              getKey={(item) => item.username}
+              renderItem={(item) => (
+                <>
+                  <Avatar className="w-5 h-5">
+                    <AvatarImage src={item.avatar ?? undefined} alt={item.username} />
+                    <AvatarFallback className="text-[10px]">{item.username[0]?.toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span style={{ color: item.color }}>@{item.username}</span>
+                </>
+              )}
+              onSelect={handleMentionSelect}
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 rounded-full text-blue-500 hover:bg-blue-100 dark:text-zinc-300 dark:hover:bg-zinc-800 transition-colors"
+              aria-label="Attach file"
+            >
+              <Paperclip className="w-5 h-5" />
+            </button>
+            <Popover open={showComposerEmoji} onOpenChange={setShowComposerEmoji}>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="p-2 rounded-full text-blue-500 hover:bg-blue-100 dark:text-zinc-300 dark:hover:bg-zinc-800 transition-colors"
+                  aria-label="Insert emoji"
+                >
+                  <Smile className="w-5 h-5" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" side="top" className="w-auto p-2">
+                <EmojiPicker
+                  onSelect={(emoji) => {
+                    setShowComposerEmoji(false);
+                    insertIntoComposer(emoji);
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            {pendingFile && (
+              <span className="flex items-center gap-1 max-w-[40%] rounded-full bg-blue-100 dark:bg-zinc-800 px-3 py-1 text-xs text-blue-900 dark:text-zinc-100">
+                <span className="truncate">{pendingFile.name}</span>
+                <button type="button" onClick={() => setPendingFile(null)} aria-label="Remove attachment">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            )}
+            <textarea
+              ref={composerRef}
+              value={message}
+              onChange={handleInputChange}
+              onKeyDown={handleComposerKeyDown}
+              onBlur={() => setCompletion(null)}
+              rows={Math.min(message.split("\n").length, 6)}
+              placeholder={activeRoom ? `Message ${roomLabel(activeRoom)}` : "Aa"}
+              className="flex-1 resize-none rounded-2xl border border-blue-100 dark:border-zinc-700 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:focus:ring-zinc-700 bg-blue-50 dark:bg-zinc-800 text-blue-900 dark:text-zinc-100 transition-colors"
+            />
+            <button
+              type="button"
+              onClick={() => setShowPreview(!showPreview)}
+              className={cn(
+                "p-2 rounded-full hover:bg-blue-100 dark:hover:bg-zinc-800 transition-colors",
+                showPreview ? "text-blue-600 dark:text-blue-300" : "text-blue-500 dark:text-zinc-300"
+              )}
+              aria-label={showPreview ? "Hide preview" : "Show preview"}
+            >
+              {showPreview ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+            {activeRoomId && (
+              <SchedulePopover roomId={activeRoomId} message={message} onScheduled={() => setMessage("")} />
+            )}
+            <button type="submit" disabled={isUploading} className="p-2 rounded-full bg-blue-500 hover:bg-blue-600 dark:bg-blue-700 dark:hover:bg-blue-800 text-white transition-colors disabled:opacity-60">
+              {isUploading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M5 13l4 4L19 7" /></svg>
+              )}
+            </button>
+          </form>
+        ) : (
+          <div className="flex items-center justify-between gap-2 px-4 py-3 bg-white/90 dark:bg-zinc-900/90 border-t border-blue-200 dark:border-zinc-800 sticky bottom-0 z-10">
+            <span className="text-sm text-blue-500 dark:text-zinc-400">Join {roomLabel(activeRoom)} to start chatting</span>
+            <Button onClick={handleJoinRoom}>Join</Button>
           </div>
         )}
       </div>
-
-      {/* Input Bar */}
-      <form
-        onSubmit={handleSendMessage}
-        className="flex items-center gap-2 px-2 sm:px-4 py-3 bg-white/90 dark:bg-zinc-900/90 border-t border-blue-200 dark:border-zinc-800 sticky bottom-0 z-10"
-      >
-        <input
-          type="text"
-          value={message}
-          onChange={handleInputChange}
-          placeholder="Aa"
-          className="flex-1 rounded-full border border-blue-100 dark:border-zinc-700 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:focus:ring-zinc-700 bg-blue-50 dark:bg-zinc-800 text-blue-900 dark:text-zinc-100 transition-colors"
-        />
-        <button type="submit" className="p-2 rounded-full bg-blue-500 hover:bg-blue-600 dark:bg-blue-700 dark:hover:bg-blue-800 text-white transition-colors">
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M5 13l4 4L19 7" /></svg>
-        </button>
-      </form>
     </div>
   );
 } 
\ No newline at end of file
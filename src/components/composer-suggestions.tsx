@@ -0,0 +1,41 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+interface ComposerSuggestionsProps<T> {
+  items: T[];
+  activeIndex: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  onSelect: (item: T) => void;
+}
+
+// Autocomplete list shown above the composer. Keyboard navigation is handled
+// by the textarea so focus never leaves it.
+export function ComposerSuggestions<T>({ items, activeIndex, getKey, renderItem, onSelect }: ComposerSuggestionsProps<T>) {
+  if (items.length === 0) return null;
+  return (
+    <ul
+      role="listbox"
+      className="basis-full max-h-60 overflow-y-auto rounded-2xl border border-blue-100 dark:border-zinc-700 bg-white dark:bg-zinc-800 py-1 text-sm text-blue-900 dark:text-zinc-100"
+    >
+      {items.map((item, index) => (
+        <li
+          key={getKey(item)}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the textarea while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(item)}
+          className={cn(
+            "flex items-center gap-2 px-4 py-1 cursor-pointer",
+            index === activeIndex ? "bg-blue-100 dark:bg-zinc-700" : "hover:bg-blue-50 dark:hover:bg-zinc-700/60"
+          )}
+        >
+          {renderItem(item)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { CompactEmoji } from "emojibase";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { EMOJI_GROUPS, SKIN_TONES, loadEmojis, searchEmojis, withSkinTone } from "@/lib/emoji";
+
+// Pseudo-group for the user's recently used emoji
+const RECENT_GROUP = -1;
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+}
+
+// Searchable, categorised grid of every Unicode emoji. The chosen skin tone
+// and recently used emoji are saved to the user's preferences.
+export function EmojiPicker({ onSelect }: EmojiPickerProps) {
+  const preferences = useQuery(api.users.getPreferences);
+  const updatePreferences = useMutation(api.users.updatePreferences);
+  const recordEmojiUse = useMutation(api.users.recordEmojiUse);
+  const [emojis, setEmojis] = useState<CompactEmoji[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [group, setGroup] = useState<number | null>(null);
+  const [showSkinTones, setShowSkinTones] = useState(false);
+
+  const skinTone = preferences?.skinTone ?? 0;
+  const recent = useMemo(() => preferences?.recentEmojis ?? [], [preferences?.recentEmojis]);
+  // Open on recently used when there are any
+  const activeGroup = group ?? (recent.length > 0 ? RECENT_GROUP : EMOJI_GROUPS[0].id);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEmojis().then((list) => {
+      if (!cancelled) setEmojis(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Recent entries are stored as the exact characters used, skin tone included
+  const visible = useMemo(() => {
+    if (!emojis) return [];
+    if (query.trim()) {
+      return searchEmojis(emojis, query).map((emoji) => ({ unicode: withSkinTone(emoji, skinTone), label: emoji.label }));
+    }
+    if (activeGroup === RECENT_GROUP) {
+      const labels = new Map(emojis.map((emoji) => [emoji.unicode, emoji.label]));
+      return recent.map((unicode) => ({ unicode, label: labels.get(unicode) ?? unicode }));
+    }
+    return emojis
+      .filter((emoji) => emoji.group === activeGroup)
+      .map((emoji) => ({ unicode: withSkinTone(emoji, skinTone), label: emoji.label }));
+  }, [emojis, query, activeGroup, recent, skinTone]);
+
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    recordEmojiUse({ emoji }).catch(() => {});
+  };
+
+  const handleSkinTone = (tone: number) => {
+    setShowSkinTones(false);
+    updatePreferences({ preferences: { skinTone: tone } }).catch(() => {});
+  };
+
+  const groups = recent.length > 0 ? [{ id: RECENT_GROUP, label: "Recently used", icon: "🕘" }, ...EMOJI_GROUPS] : EMOJI_GROUPS;
+
+  return (
+    <div className="w-72 space-y-2">
+      <div className="flex items-center gap-1">
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search emoji" autoFocus />
+        {showSkinTones ? (
+          SKIN_TONES.map(({ tone, label, preview }) => (
+            <button
+              key={tone}
+              type="button"
+              title={label}
+              aria-label={`${label} skin tone`}
+              onClick={() => handleSkinTone(tone)}
+              className="rounded p-0.5 text-lg leading-none hover:bg-blue-100 dark:hover:bg-zinc-700"
+            >
+              {preview}
+            </button>
+          ))
+        ) : (
+          <button
+            type="button"
+            title="Skin tone"
+            aria-label="Choose skin tone"
+            onClick={() => setShowSkinTones(true)}
+            className="rounded p-0.5 text-lg leading-none hover:bg-blue-100 dark:hover:bg-zinc-700"
+          >
+            {SKIN_TONES[skinTone]?.preview ?? SKIN_TONES[0].preview}
+          </button>
+        )}
+      </div>
+      {!query.trim() && (
+        <div className="flex justify-between">
+          {groups.map((g) => (
+            <button
+              key={g.id}
+              type="button"
+              title={g.label}
+              aria-label={g.label}
+              onClick={() => setGroup(g.id)}
+              className={cn(
+                "rounded p-1 text-base",
+                g.id === activeGroup ? "bg-blue-100 dark:bg-zinc-700" : "opacity-60 hover:opacity-100"
+              )}
+            >
+              {g.icon}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-8 gap-0.5 h-56 overflow-y-auto content-start">
+        {!emojis && <Loader2 className="col-span-8 mx-auto mt-4 w-4 h-4 animate-spin text-blue-400 dark:text-zinc-400" />}
+        {emojis && visible.length === 0 && (
+          <p className="col-span-8 text-center text-sm text-gray-500 dark:text-zinc-400">No emoji found</p>
+        )}
+        {visible.map((emoji) => (
+          <button
+            key={emoji.unicode}
+            type="button"
+            title={emoji.label}
+            onClick={() => handleSelect(emoji.unicode)}
+            className="rounded p-1 text-xl leading-none hover:bg-blue-100 dark:hover:bg-zinc-700"
+          >
+            {emoji.unicode}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import "highlight.js/styles/github-dark.css";
+
+// Raw HTML is never rendered and the output is sanitized before highlighting,
+// so the only classes that reach the DOM are highlight.js token classes.
+// Images are dropped so messages cannot embed tracking pixels.
+const REHYPE_PLUGINS = [rehypeSanitize, rehypeHighlight];
+const REMARK_PLUGINS = [remarkGfm];
+const DISALLOWED_ELEMENTS = ["img"];
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+interface MentionOptions {
+  mentions: string[];
+  self?: string;
+}
+
+const SELF_MENTION_CLASSES = ["rounded", "px-0.5", "font-semibold", "bg-yellow-200", "text-yellow-900", "dark:bg-yellow-500/30", "dark:text-yellow-100"];
+const MENTION_CLASSES = ["font-semibold"];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Wrap @mentions of the given users in highlighted spans. Added after
+// sanitizing so the classes survive; links and code are left alone.
+function rehypeMentions({ mentions, self }: MentionOptions) {
+  // Longest names first so "@alice" is not read as "@al"
+  const names = [...mentions].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(^|[^\\w@])@(${names.join("|")})(?![\\w-]|\\.\\w)`, "g");
+
+  const split = (value: string): HastNode[] => {
+    const nodes: HastNode[] = [];
+    let last = 0;
+    for (const match of Array.from(value.matchAll(pattern))) {
+      const start = (match.index ?? 0) + match[1].length;
+      if (start > last) nodes.push({ type: "text", value: value.slice(last, start) });
+      nodes.push({
+        type: "element",
+        tagName: "span",
+        properties: { className: match[2] === self ? SELF_MENTION_CLASSES : MENTION_CLASSES },
+        children: [{ type: "text", value: `@${match[2]}` }],
+      });
+      last = start + match[2].length + 1;
+    }
+    if (last < value.length) nodes.push({ type: "text", value: value.slice(last) });
+    return nodes;
+  };
+
+  const visit = (node: HastNode) => {
+    if (!node.children || node.tagName === "a" || node.tagName === "code" || node.tagName === "pre") return;
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text" && child.value) return split(child.value);
+      visit(child);
+      return [child];
+    });
+  };
+
+  return (tree: HastNode) => visit(tree);
+}
+
+function textContent(node: React.ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(textContent).join("");
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return textContent(node.props.children);
+  return "";
+}
+
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(textContent(children).replace(/\n$/, ""));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative group/code my-1">
+      <pre className="overflow-x-auto rounded-lg bg-zinc-900 p-3 pr-9 text-xs text-zinc-100 [&_code]:bg-transparent [&_code]:p-0">
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-1.5 right-1.5 p-1 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-700 opacity-0 group-hover/code:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+      </button>
+    </div>
+  );
+}
+
+const components: Components = {
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 break-words">
+      {children}
+    </a>
+  ),
+  p: ({ children }) => <p className="whitespace-pre-wrap break-words">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-current/40 pl-2 opacity-80">{children}</blockquote>,
+  code: ({ className, children }) => (
+    <code className={cn("rounded bg-black/10 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.85em]", className)}>
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+};
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  // Usernames mentioned in the text, and the viewer's own, to highlight
+  mentions?: string[];
+  self?: string;
+}
+
+export function Markdown({ text, className, mentions, self }: MarkdownProps) {
+  const rehypePlugins = useMemo<Options["rehypePlugins"]>(
+    () => (mentions?.length ? [...REHYPE_PLUGINS, [rehypeMentions, { mentions, self }]] : REHYPE_PLUGINS),
+    [mentions, self]
+  );
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <ReactMarkdown
+        remarkPlugins={REMARK_PLUGINS}
+        rehypePlugins={rehypePlugins}
+        disallowedElements={DISALLOWED_ELEMENTS}
+        components={components}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,14 +1,120 @@
 "use client";
 
-import { ConvexProvider, ConvexReactClient } from "convex/react";
-import { ReactNode } from "react";
+import { ClerkProvider, useAuth, useClerk } from "@clerk/clerk-react";
+import { ConvexProviderWithAuth, ConvexReactClient } from "convex/react";
+import { ConvexProviderWithClerk } from "convex/react-clerk";
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 
 if (!process.env.NEXT_PUBLIC_CONVEX_URL) {
   throw new Error("NEXT_PUBLIC_CONVEX_URL environment variable is not set");
 }
 
 const convex = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL);
+const clerkPublishableKey = process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY;
+
+interface AuthActions {
+  mode: "clerk" | "dev";
+  signIn: (username?: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthActionsContext = createContext<AuthActions | null>(null);
+
+export function useAuthActions(): AuthActions {
+  const actions = useContext(AuthActionsContext);
+  if (!actions) throw new Error("useAuthActions must be used within ConvexClientProvider");
+  return actions;
+}
 
 export function ConvexClientProvider({ children }: { children: ReactNode }) {
-  return <ConvexProvider client={convex}>{children}</ConvexProvider>;
-} 
\ No newline at end of file
+  if (clerkPublishableKey) {
+    return (
+      <ClerkProvider publishableKey={clerkPublishableKey}>
+        <ConvexProviderWithClerk client={convex} useAuth={useAuth}>
+          <ClerkAuthActions>{children}</ClerkAuthActions>
+        </ConvexProviderWithClerk>
+      </ClerkProvider>
+    );
+  }
+  return <DevAuthProvider>{children}</DevAuthProvider>;
+}
+
+function ClerkAuthActions({ children }: { children: ReactNode }) {
+  const clerk = useClerk();
+  const actions = useMemo<AuthActions>(() => ({
+    mode: "clerk",
+    signIn: async () => clerk.openSignIn(),
+    signOut: async () => clerk.signOut(),
+  }), [clerk]);
+  return <AuthActionsContext.Provider value={actions}>{children}</AuthActionsContext.Provider>;
+}
+
+// Development stand-in: tokens come from the local issuer in /api/dev-auth
+const DEV_AUTH_STORAGE_KEY = "devAuthUsername";
+
+interface DevAuthState {
+  username: string | null;
+  isLoading: boolean;
+}
+
+const DevAuthStateContext = createContext<DevAuthState>({ username: null, isLoading: true });
+
+function DevAuthProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<DevAuthState>({ username: null, isLoading: true });
+
+  useEffect(() => {
+    setState({ username: localStorage.getItem(DEV_AUTH_STORAGE_KEY), isLoading: false });
+  }, []);
+
+  const actions = useMemo<AuthActions>(() => ({
+    mode: "dev",
+    signIn: async (username?: string) => {
+      if (!username?.trim()) throw new Error("Username is required");
+      localStorage.setItem(DEV_AUTH_STORAGE_KEY, username.trim());
+      setState({ username: username.trim(), isLoading: false });
+    },
+    signOut: async () => {
+      localStorage.removeItem(DEV_AUTH_STORAGE_KEY);
+      setState({ username: null, isLoading: false });
+    },
+  }), []);
+
+  return (
+    <AuthActionsContext.Provider value={actions}>
+      <DevAuthStateContext.Provider value={state}>
+        <ConvexProviderWithAuth client={convex} useAuth={useDevAuth}>
+          {children}
+        </ConvexProviderWithAuth>
+      </DevAuthStateContext.Provider>
+    </AuthActionsContext.Provider>
+  );
+}
+
+function useDevAuth() {
+  const { username, isLoading } = useContext(DevAuthStateContext);
+  const cached = useRef<{ username: string; token: string; expiresAt: number } | null>(null);
+
+  const fetchAccessToken = useCallback(async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+    if (!username) return null;
+    const current = cached.current;
+    if (!forceRefreshToken && current?.username === username && current.expiresAt > Date.now()) {
+      return current.token;
+    }
+
+    const response = await fetch("/api/dev-auth/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username }),
+    });
+    if (!response.ok) return null;
+    const { token } = await response.json();
+    // Refresh a few minutes before the token's one hour lifetime runs out
+    cached.current = { username, token, expiresAt: Date.now() + 50 * 60 * 1000 };
+    return token as string;
+  }, [username]);
+
+  return useMemo(
+    () => ({ isLoading, isAuthenticated: !!username, fetchAccessToken }),
+    [isLoading, username, fetchAccessToken]
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { isQuietTime, minutesIntoDay, type QuietHours } from "../../convex/lib/quietHours";
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+
+// Only the newest few get their own desktop notification when many arrive at once
+const MAX_NOTIFICATIONS_AT_ONCE = 3;
+
+interface NotificationPreferences {
+  notifications?: boolean;
+  sound?: boolean;
+  quietHours?: QuietHours;
+}
+
+interface IncomingMessage {
+  roomId: Id<"rooms">;
+  messageId: Id<"messages">;
+  parentId?: Id<"messages">;
+}
+
+// Browsers only allow audio after the user has interacted with the page, so
+// the context is created on the first click or key press
+let audioContext: AudioContext | null = null;
+
+function unlockAudio() {
+  audioContext ??= new AudioContext();
+  if (audioContext.state === "suspended") audioContext.resume().catch(() => {});
+}
+
+// A short synthesized chime: two rising notes for mentions and direct
+// messages, one for everything else
+function playChime(urgent: boolean) {
+  const context = audioContext;
+  if (!context || context.state !== "running") return;
+  (urgent ? [660, 880] : [660]).forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.15;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.3);
+  });
+}
+
+// Desktop notifications and sounds for messages that arrive while the tab is
+// hidden, following the user's notification, sound and quiet hours
+// preferences. Clicking a notification calls `onOpen` with the message.
+export function useMessageNotifications(
+  preferences: NotificationPreferences | undefined,
+  onOpen: (message: IncomingMessage) => void
+) {
+  // Everything up to the moment the tab was hidden has already been seen
+  const [hiddenSince, setHiddenSince] = useState<number | null>(null);
+  const notified = useRef(new Set<string>());
+  const onOpenRef = useRef(onOpen);
+  const enabled = !!(preferences?.notifications || preferences?.sound);
+
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+  }, [onOpen]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      notified.current.clear();
+      setHiddenSince(document.hidden ? Date.now() : null);
+    };
+    handleVisibility();
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("pointerdown", unlockAudio);
+    window.addEventListener("keydown", unlockAudio);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("pointerdown", unlockAudio);
+      window.removeEventListener("keydown", unlockAudio);
+    };
+  }, []);
+
+  const incoming = useQuery(
+    api.notifications.incoming,
+    enabled && hiddenSince !== null ? { since: hiddenSince } : "skip"
+  );
+
+  useEffect(() => {
+    if (!incoming || !preferences) return;
+    const fresh = incoming.filter((message) => !notified.current.has(message._id));
+    if (fresh.length === 0) return;
+    for (const message of fresh) notified.current.add(message._id);
+    if (isQuietTime(preferences.quietHours, minutesIntoDay(new Date()))) return;
+
+    if (preferences.sound) playChime(fresh.some((message) => message.reason !== "message"));
+    if (!preferences.notifications || !("Notification" in window) || Notification.permission !== "granted") return;
+    for (const message of fresh.slice(-MAX_NOTIFICATIONS_AT_ONCE)) {
+      const title =
+        message.reason === "mention"
+          ? `${message.username} mentioned you in ${message.title}`
+          : message.reason === "direct" && message.title === message.username
+            ? message.username
+            : `${message.username} in ${message.title}`;
+      // One notification per conversation; a newer message replaces the last
+      const notification = new Notification(title, { body: message.text, tag: message.roomId });
+      notification.onclick = () => {
+        window.focus();
+        onOpenRef.current({ roomId: message.roomId, messageId: message._id, parentId: message.parentId });
+        notification.close();
+      };
+    }
+  }, [incoming, preferences]);
+}
+
+// Keep this browser's Web Push subscription in line with the notifications
+// preference, so mentions and direct messages reach the user while they are
+// offline. Returns a function that removes the subscription, for signing out.
+export function usePushSubscription(enabled: boolean | undefined) {
+  const vapidPublicKey = useQuery(api.push.publicKey);
+  const subscribe = useMutation(api.push.subscribe);
+  const unsubscribe = useMutation(api.push.unsubscribe);
+
+  const removeSubscription = useCallback(async () => {
+    if (!isPushSupported()) return;
+    const endpoint = await unsubscribeFromPush();
+    if (endpoint) await unsubscribe({ endpoint });
+  }, [unsubscribe]);
+
+  useEffect(() => {
+    if (!vapidPublicKey || enabled === undefined || !isPushSupported()) return;
+    if (!enabled) {
+      removeSubscription().catch((error) => console.error("Failed to unsubscribe from push:", error));
+    } else if (Notification.permission === "granted") {
+      subscribeToPush(vapidPublicKey)
+        .then(subscribe)
+        // The browser may still hold a subscription registered to an account
+        // that never signed out here; replace it with a new endpoint
+        .catch(async () => {
+          await unsubscribeFromPush();
+          await subscribe(await subscribeToPush(vapidPublicKey));
+        })
+        .catch((error) => console.error("Failed to subscribe to push:", error));
+    }
+  }, [vapidPublicKey, enabled, subscribe, removeSubscription]);
+
+  return removeSubscription;
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { insertAtTop, useConvex, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  createClientId,
+  isOutboxSupported,
+  listOutbox,
+  putOutbox,
+  removeFromOutbox,
+  type OutboxMessage,
+} from "@/lib/outbox";
+
+// How often to look for a new connection while messages are waiting to be retried
+const RECONNECT_CHECK_MS = 3 * 1000;
+
+interface Sender {
+  username: string;
+  color: string;
+}
+
+interface DraftMessage {
+  roomId: Id<"rooms">;
+  text: string;
+  quotedMessageId?: Id<"messages">;
+}
+
+// Send text messages through a persistent outbox. Each message shows up in
+// the conversation straight away as pending and stays queued, across reloads,
+// until the server has it; its client id keeps retries from posting it twice.
+// Messages the server rejects are returned as `failed` to retry or discard,
+// and are retried automatically after the connection comes back.
+export function useOutbox(sender: Sender | null) {
+  const convex = useConvex();
+  const sendMutation = useMutation(api.messages.send);
+  const [failed, setFailed] = useState<OutboxMessage[]>([]);
+  const inFlight = useRef(new Set<string>());
+  const senderRef = useRef(sender);
+  const username = sender?.username ?? null;
+
+  useEffect(() => {
+    senderRef.current = sender;
+  }, [sender]);
+
+  const send = useMemo(
+    () =>
+      sendMutation.withOptimisticUpdate((localStore, args) => {
+        const current = senderRef.current;
+        if (!current || !args.clientId) return;
+        const now = Date.now();
+        insertAtTop({
+          paginatedQuery: api.messages.list,
+          argsToMatch: { roomId: args.roomId },
+          localQueryStore: localStore,
+          item: {
+            _id: args.clientId as Id<"messages">,
+            _creationTime: now,
+            roomId: args.roomId,
+            text: args.text,
+            username: current.username,
+            color: current.color,
+            timestamp: now,
+            delivered: false,
+            quotedMessageId: args.quotedMessageId,
+            clientId: args.clientId,
+            readBy: [],
+            attachment: undefined,
+            attachmentUrl: null,
+            thumbnailUrl: null,
+            quoted: null,
+            forwarded: null,
+          },
+        });
+      }),
+    [sendMutation]
+  );
+
+  const attempt = useCallback(
+    async (entry: OutboxMessage) => {
+      if (inFlight.current.has(entry.clientId)) return;
+      inFlight.current.add(entry.clientId);
+      setFailed((entries) => entries.filter((e) => e.clientId !== entry.clientId));
+      try {
+        await send({
+          roomId: entry.roomId as Id<"rooms">,
+          text: entry.text,
+          quotedMessageId: entry.quotedMessageId as Id<"messages"> | undefined,
+          clientId: entry.clientId,
+        });
+        await removeFromOutbox(entry.clientId).catch(() => {});
+      } catch (error) {
+        const rejected = { ...entry, failed: true };
+        await putOutbox(rejected).catch(() => {});
+        setFailed((entries) => [...entries, rejected].sort((a, b) => a.createdAt - b.createdAt));
+        throw error;
+      } finally {
+        inFlight.current.delete(entry.clientId);
+      }
+    },
+    [send]
+  );
+
+  // Pick up whatever a previous visit left queued
+  useEffect(() => {
+    setFailed([]);
+    if (!username || !isOutboxSupported()) return;
+    let cancelled = false;
+    listOutbox(username)
+      .then((entries) => {
+        if (cancelled) return;
+        setFailed(entries.filter((entry) => entry.failed));
+        entries.filter((entry) => !entry.failed).forEach((entry) => attempt(entry).catch(() => {}));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [username, attempt]);
+
+  // Convex holds on to mutations while offline by itself, so only rejected
+  // messages need another attempt once a new connection is up
+  const hasFailed = failed.length > 0;
+  const failedRef = useRef(failed);
+  useEffect(() => {
+    failedRef.current = failed;
+  }, [failed]);
+
+  useEffect(() => {
+    if (!hasFailed) return;
+    let connectionCount = convex.connectionState().connectionCount;
+    const check = () => {
+      const state = convex.connectionState();
+      if (!state.isWebSocketConnected || state.connectionCount === connectionCount) return;
+      connectionCount = state.connectionCount;
+      failedRef.current.forEach((entry) => attempt(entry).catch(() => {}));
+    };
+    const interval = setInterval(check, RECONNECT_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [hasFailed, convex, attempt]);
+
+  const enqueue = useCallback(
+    async (draft: DraftMessage) => {
+      if (!username) throw new Error("Not signed in");
+      const entry: OutboxMessage = {
+        clientId: createClientId(),
+        username,
+        roomId: draft.roomId,
+        text: draft.text,
+        quotedMessageId: draft.quotedMessageId,
+        createdAt: Date.now(),
+      };
+      // Without IndexedDB the message is still sent, just not kept across reloads
+      if (isOutboxSupported()) await putOutbox(entry).catch(() => {});
+      await attempt(entry);
+    },
+    [username, attempt]
+  );
+
+  const retry = useCallback((entry: OutboxMessage) => attempt(entry), [attempt]);
+
+  const discard = useCallback((entry: OutboxMessage) => {
+    setFailed((entries) => entries.filter((e) => e.clientId !== entry.clientId));
+    removeFromOutbox(entry.clientId).catch(() => {});
+  }, []);
+
+  return { send: enqueue, failed, retry, discard };
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { HEARTBEAT_INTERVAL_MS } from "../../convex/lib/presence";
+
+// Without keyboard or pointer input for this long the tab counts as away
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const IDLE_CHECK_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"];
+
+type SessionState = "active" | "away";
+
+// Whether the user is looking at this tab: away while it is hidden or idle
+function useSessionState() {
+  const [state, setState] = useState<SessionState>("active");
+
+  useEffect(() => {
+    let lastInput = Date.now();
+    const update = () => setState(document.hidden || Date.now() - lastInput > IDLE_AFTER_MS ? "away" : "active");
+    const handleInput = () => {
+      lastInput = Date.now();
+      if (!document.hidden) setState("active");
+    };
+    update();
+    const interval = setInterval(update, IDLE_CHECK_MS);
+    document.addEventListener("visibilitychange", update);
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleInput, { passive: true }));
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", update);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleInput));
+    };
+  }, []);
+
+  return state;
+}
+
+// Keep this tab's presence session alive while signed in. Every tab has its
+// own session, so closing one leaves the user online in the others; the
+// server marks the user offline once all of them are gone or have stopped
+// sending heartbeats. Returns a function that ends the session right away,
+// for use before signing out.
+export function usePresence(enabled: boolean) {
+  const heartbeat = useMutation(api.presence.heartbeat);
+  const leave = useMutation(api.presence.leave);
+  const state = useSessionState();
+  // Per tab rather than in sessionStorage, which duplicated tabs would share
+  const sessionId = useRef<string | null>(null);
+
+  const getSessionId = useCallback(() => {
+    sessionId.current ??= Math.random().toString(36).substring(2) + Date.now().toString(36);
+    return sessionId.current;
+  }, []);
+
+  // Beat straight away whenever the state changes, then on the interval
+  useEffect(() => {
+    if (!enabled) return;
+    const beat = () => heartbeat({ sessionId: getSessionId(), state }).catch(() => {});
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, state, heartbeat, getSessionId]);
+
+  const endSession = useCallback(
+    () => leave({ sessionId: getSessionId() }).catch(() => {}),
+    [leave, getSessionId]
+  );
+
+  // Best effort on close; a page restored from the back/forward cache
+  // starts a new session with its next heartbeat
+  useEffect(() => {
+    if (!enabled) return;
+    window.addEventListener("pagehide", endSession);
+    return () => window.removeEventListener("pagehide", endSession);
+  }, [enabled, endSession]);
+
+  return endSession;
+}
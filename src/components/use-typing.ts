@@ -0,0 +1,50 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { TYPING_REFRESH_MS } from "../../convex/lib/typing";
+
+// The indicator is cleared after this long without a keystroke
+const TYPING_IDLE_MS = 3 * 1000;
+
+// Report typing in the given conversation. Call `touch` on every change to
+// the draft and `stop` once it is sent or cleared; refreshes are throttled,
+// and switching conversations or closing the page clears the indicator.
+export function useTypingIndicator(roomId: Id<"rooms"> | null) {
+  const setTyping = useMutation(api.messages.setTyping);
+  const typingIn = useRef<Id<"rooms"> | null>(null);
+  const lastSent = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const stop = useCallback(() => {
+    clearTimeout(idleTimer.current);
+    const room = typingIn.current;
+    if (!room) return;
+    typingIn.current = null;
+    lastSent.current = 0;
+    setTyping({ roomId: room, isTyping: false }).catch(() => {});
+  }, [setTyping]);
+
+  const touch = useCallback(() => {
+    if (!roomId) return;
+    const now = Date.now();
+    if (typingIn.current !== roomId || now - lastSent.current >= TYPING_REFRESH_MS) {
+      typingIn.current = roomId;
+      lastSent.current = now;
+      setTyping({ roomId, isTyping: true }).catch(() => {});
+    }
+    clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(stop, TYPING_IDLE_MS);
+  }, [roomId, setTyping, stop]);
+
+  useEffect(() => stop, [roomId, stop]);
+
+  useEffect(() => {
+    window.addEventListener("pagehide", stop);
+    return () => window.removeEventListener("pagehide", stop);
+  }, [stop]);
+
+  return { touch, stop };
+}
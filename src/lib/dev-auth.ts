@@ -0,0 +1,68 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, sign } from "crypto";
+
+// Local stand-in for the production identity provider. It signs RS256 JWTs
+// for any username so Convex auth works without Clerk in development and
+// tests. Never enabled in production builds.
+
+export const DEV_AUTH_AUDIENCE = "convextest-dev";
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+export function isDevAuthEnabled(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+// The issuer must match DEV_AUTH_ISSUER configured on the Convex deployment
+export function devAuthIssuer(request: Request): string {
+  return process.env.DEV_AUTH_ISSUER ?? `${new URL(request.url).origin}/api/dev-auth`;
+}
+
+interface SigningKey {
+  privateKey: KeyObject;
+  publicJwk: JsonWebKey & { kid: string };
+}
+
+const globalForDevAuth = globalThis as unknown as { devAuthKey?: SigningKey };
+
+// Use DEV_AUTH_PRIVATE_KEY (PKCS#8 PEM) when set so tokens survive restarts,
+// otherwise generate a throwaway key for this process.
+function getSigningKey(): SigningKey {
+  if (globalForDevAuth.devAuthKey) return globalForDevAuth.devAuthKey;
+
+  const privateKey = process.env.DEV_AUTH_PRIVATE_KEY
+    ? createPrivateKey(process.env.DEV_AUTH_PRIVATE_KEY.replace(/\\n/g, "\n"))
+    : generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+  const jwk = createPublicKey(privateKey).export({ format: "jwk" });
+  const kid = createHash("sha256").update(`${jwk.n}.${jwk.e}`).digest("base64url").slice(0, 16);
+
+  globalForDevAuth.devAuthKey = {
+    privateKey,
+    publicJwk: { ...jwk, kid, alg: "RS256", use: "sig" },
+  };
+  return globalForDevAuth.devAuthKey;
+}
+
+export function getJwks() {
+  return { keys: [getSigningKey().publicJwk] };
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+export function signDevToken(issuer: string, username: string): string {
+  const { privateKey, publicJwk } = getSigningKey();
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = encodeSegment({ alg: "RS256", typ: "JWT", kid: publicJwk.kid });
+  const payload = encodeSegment({
+    iss: issuer,
+    sub: username.toLowerCase(),
+    aud: DEV_AUTH_AUDIENCE,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    preferred_username: username,
+    name: username,
+  });
+  const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
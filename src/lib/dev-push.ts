@@ -0,0 +1,132 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify, type ECDH } from "crypto";
+import { isDevAuthEnabled } from "@/lib/dev-auth";
+
+// Local stand-in for a browser push service (FCM, Mozilla autopush, ...). It
+// hands out a subscription whose endpoint is this server, then accepts pushes
+// sent to it the way a real push service would: it checks the VAPID signature,
+// decrypts the aes128gcm payload (RFC 8291) and keeps what it received so
+// development and tests can inspect it. Never enabled in production builds.
+
+export const isDevPushEnabled = isDevAuthEnabled;
+
+const MAX_RECEIVED = 100;
+
+export interface ReceivedPush {
+  receivedAt: number;
+  ttl: number | null;
+  urgency: string | null;
+  vapidSubject: string | null;
+  payload: unknown;
+}
+
+interface StandInState {
+  ecdh: ECDH;
+  auth: Buffer;
+  received: ReceivedPush[];
+}
+
+const globalForDevPush = globalThis as unknown as { devPush?: StandInState };
+
+function getState(): StandInState {
+  if (!globalForDevPush.devPush) {
+    const ecdh = createECDH("prime256v1");
+    ecdh.generateKeys();
+    globalForDevPush.devPush = { ecdh, auth: randomBytes(16), received: [] };
+  }
+  return globalForDevPush.devPush;
+}
+
+// The subscription a browser would produce, pointing at this stand-in
+export function devPushSubscription(request: Request) {
+  const { ecdh, auth } = getState();
+  return {
+    endpoint: `${new URL(request.url).origin}/api/dev-push`,
+    p256dh: ecdh.getPublicKey().toString("base64url"),
+    auth: auth.toString("base64url"),
+  };
+}
+
+export function receivedPushes(): ReceivedPush[] {
+  return getState().received;
+}
+
+export function clearReceivedPushes() {
+  getState().received = [];
+}
+
+// Check the `vapid t=<jwt>, k=<public key>` authorization header: an ES256 JWT
+// for this endpoint's origin, signed by the key in `k`. Returns its subject.
+function verifyVapid(header: string | null, audience: string): string | null {
+  const match = header?.match(/^vapid t=([^,\s]+),\s*k=([A-Za-z0-9_-]+)$/);
+  if (!match) throw new Error("Missing VAPID authorization");
+  const [, token, key] = match;
+  const [encodedHeader, encodedClaims, signature] = token.split(".");
+  const publicKey = Buffer.from(key, "base64url");
+  const jwk = {
+    kty: "EC",
+    crv: "P-256",
+    x: publicKey.subarray(1, 33).toString("base64url"),
+    y: publicKey.subarray(33, 65).toString("base64url"),
+  };
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${encodedHeader}.${encodedClaims}`),
+    { key: createPublicKey({ key: jwk, format: "jwk" }), dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  if (!valid) throw new Error("Invalid VAPID signature");
+
+  const claims = JSON.parse(Buffer.from(encodedClaims, "base64url").toString());
+  if (claims.aud !== audience) throw new Error("VAPID audience does not match the push service");
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) throw new Error("VAPID token has expired");
+  return typeof claims.sub === "string" ? claims.sub : null;
+}
+
+// Decrypt an aes128gcm body: salt (16) | record size (4) | key id length (1) |
+// sender public key | ciphertext with a 16 byte tag
+function decryptPayload(body: Buffer): string {
+  const { ecdh, auth } = getState();
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = ecdh.computeSecret(senderKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), ecdh.getPublicKey(), senderKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, auth, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  // The last record ends with a 0x02 delimiter followed by zero padding
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  if (padded[end] !== 2) throw new Error("Invalid record padding");
+  return padded.subarray(0, end).toString();
+}
+
+export function receivePush(request: Request, body: Buffer): ReceivedPush {
+  if (request.headers.get("content-encoding") !== "aes128gcm") throw new Error("Unsupported content encoding");
+  const vapidSubject = verifyVapid(request.headers.get("authorization"), new URL(request.url).origin);
+  const text = decryptPayload(body);
+  let payload: unknown = text;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Plain text payloads are kept as they are
+  }
+
+  const ttl = request.headers.get("ttl");
+  const push = {
+    receivedAt: Date.now(),
+    ttl: ttl ? Number(ttl) : null,
+    urgency: request.headers.get("urgency"),
+    vapidSubject,
+    payload,
+  };
+  const state = getState();
+  state.received = [...state.received, push].slice(-MAX_RECEIVED);
+  return push;
+}
@@ -0,0 +1,55 @@
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too big; fall back to
+// showing the whole text as replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+// Word-level diff between two versions of a message, whitespace preserved
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: "removed" as const, text: before },
+      { type: "added" as const, text: after },
+    ].filter((part) => part.text);
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i:] and b[j:]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
@@ -0,0 +1,92 @@
+import type { CompactEmoji } from "emojibase";
+
+// Picker categories, in emojibase group order. Group 2 (skin tone and hair
+// components) is not selectable on its own and is left out.
+export const EMOJI_GROUPS = [
+  { id: 0, label: "Smileys & emotion", icon: "😀" },
+  { id: 1, label: "People & body", icon: "👋" },
+  { id: 3, label: "Animals & nature", icon: "🐻" },
+  { id: 4, label: "Food & drink", icon: "🍔" },
+  { id: 5, label: "Travel & places", icon: "✈️" },
+  { id: 6, label: "Activities", icon: "⚽" },
+  { id: 7, label: "Objects", icon: "💡" },
+  { id: 8, label: "Symbols", icon: "❤️" },
+  { id: 9, label: "Flags", icon: "🏁" },
+];
+
+// Skin tone 0 keeps each emoji's default yellow; 1-5 are the Fitzpatrick
+// modifiers U+1F3FB to U+1F3FF, light to dark
+export const SKIN_TONES = [
+  { tone: 0, label: "Default", preview: "✋" },
+  { tone: 1, label: "Light", preview: "✋🏻" },
+  { tone: 2, label: "Medium-light", preview: "✋🏼" },
+  { tone: 3, label: "Medium", preview: "✋🏽" },
+  { tone: 4, label: "Medium-dark", preview: "✋🏾" },
+  { tone: 5, label: "Dark", preview: "✋🏿" },
+];
+
+const MAX_SEARCH_RESULTS = 200;
+const MAX_SHORTCODE_MATCHES = 8;
+
+export interface EmojiShortcode {
+  shortcode: string;
+  emoji: CompactEmoji;
+}
+
+let emojiData: Promise<CompactEmoji[]> | null = null;
+let shortcodeData: Promise<EmojiShortcode[]> | null = null;
+
+// The emoji dataset is large, so it is only fetched the first time a picker opens
+export function loadEmojis(): Promise<CompactEmoji[]> {
+  emojiData ??= import("emojibase-data/en/compact.json").then((module) =>
+    module.default.filter((emoji) => emoji.group !== undefined && emoji.group !== 2)
+  );
+  return emojiData;
+}
+
+// Match every search word against the emoji's name and tags
+export function searchEmojis(emojis: CompactEmoji[], query: string): CompactEmoji[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return emojis
+    .filter((emoji) =>
+      words.every((word) => emoji.label.includes(word) || emoji.tags?.some((tag) => tag.startsWith(word)))
+    )
+    .slice(0, MAX_SEARCH_RESULTS);
+}
+
+// The variant of an emoji for the given skin tone. Multi-person emoji use the
+// variant where everyone has that tone.
+export function withSkinTone(emoji: CompactEmoji, tone: number | undefined): string {
+  if (!tone || !emoji.skins) return emoji.unicode;
+  const modifier = (0x1f3fa + tone).toString(16).toUpperCase();
+  const skin = emoji.skins.find((variant) => {
+    const modifiers = variant.hexcode.split("-").filter((code) => /^1F3F[B-F]$/.test(code));
+    return modifiers.length > 0 && modifiers.every((code) => code === modifier);
+  });
+  return skin?.unicode ?? emoji.unicode;
+}
+
+// GitHub-style shortcodes (`:tada:`), joined with the emoji they stand for
+export function loadShortcodes(): Promise<EmojiShortcode[]> {
+  shortcodeData ??= Promise.all([loadEmojis(), import("emojibase-data/en/shortcodes/github.json")]).then(
+    ([emojis, module]) => {
+      const byHexcode = new Map(emojis.map((emoji) => [emoji.hexcode, emoji]));
+      const shortcodes: EmojiShortcode[] = [];
+      for (const [hexcode, codes] of Object.entries(module.default)) {
+        const emoji = byHexcode.get(hexcode);
+        if (!emoji) continue;
+        for (const shortcode of Array.isArray(codes) ? codes : [codes]) shortcodes.push({ shortcode, emoji });
+      }
+      return shortcodes.sort((a, b) => a.shortcode.localeCompare(b.shortcode));
+    }
+  );
+  return shortcodeData;
+}
+
+// Shortcodes starting with the query first, then any that contain it
+export function matchShortcodes(shortcodes: EmojiShortcode[], query: string): EmojiShortcode[] {
+  const q = query.toLowerCase();
+  const prefixed = shortcodes.filter((s) => s.shortcode.startsWith(q));
+  const containing = shortcodes.filter((s) => !s.shortcode.startsWith(q) && s.shortcode.includes(q));
+  return [...prefixed, ...containing].slice(0, MAX_SHORTCODE_MATCHES);
+}
@@ -0,0 +1,67 @@
+// Messages waiting to be sent, kept in IndexedDB so they survive a dropped
+// connection or a closed tab. Entries are removed once the server has them.
+
+const DB_NAME = "chat-outbox";
+const DB_VERSION = 1;
+const STORE = "messages";
+
+export interface OutboxMessage {
+  clientId: string;       // Passed to messages.send so a resend is not posted twice
+  username: string;       // Sender; only their own entries are sent
+  roomId: string;
+  text: string;
+  quotedMessageId?: string;
+  createdAt: number;
+  failed?: boolean;       // Rejected by the server on the last attempt
+}
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "clientId" }).createIndex("by_username", "username");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is retried next time rather than cached
+    db.catch(() => {
+      db = null;
+    });
+  }
+  return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const request = action(database.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isOutboxSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function createClientId(): string {
+  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+}
+
+// The user's queued messages, oldest first
+export async function listOutbox(username: string): Promise<OutboxMessage[]> {
+  const entries = await run<OutboxMessage[]>("readonly", (store) => store.index("by_username").getAll(username));
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function putOutbox(entry: OutboxMessage): Promise<void> {
+  await run("readwrite", (store) => store.put(entry));
+}
+
+export async function removeFromOutbox(clientId: string): Promise<void> {
+  await run("readwrite", (store) => store.delete(clientId));
+}
@@ -0,0 +1,54 @@
+// Browser side of Web Push: the service worker in public/sw.js and the
+// PushManager subscription stored by convex/push.ts
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  timeZone: string;
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window;
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Subscribe this browser, reusing an existing subscription when there is one.
+// Notification permission must already be granted.
+export async function subscribeToPush(vapidPublicKey: string): Promise<PushSubscriptionKeys> {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(vapidPublicKey),
+    }));
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) throw new Error("Push subscription is missing its keys");
+  return {
+    endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+// Remove this browser's subscription; returns its endpoint so the server copy
+// can be deleted too
+export async function unsubscribeFromPush(): Promise<string | null> {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}